@@ -1,26 +1,65 @@
-import { Notice, Plugin, addIcon } from 'obsidian'
+import { Notice, Plugin, addIcon, TFile, TFolder, TAbstractFile, Vault, Menu, debounce } from 'obsidian'
 import * as AnkiConnect from './src/anki'
 import { PluginSettings, ParsedSettings } from './src/interfaces/settings-interface'
+import { NoteState, NoteConflict, DuplicateID } from './src/interfaces/note-interface'
+import { FileStat } from './src/interfaces/file-interface'
+import { JournalEntry } from './src/interfaces/journal-interface'
 import { SettingsTab } from './src/settings'
+import { DEFAULT_MEDIA_TYPES } from './src/format'
 import { ANKI_ICON } from './src/constants'
+import { DEFAULT_CODE_THEME } from './src/code-themes'
 import { settingToData } from './src/setting-to-data'
-import { FileManager } from './src/files-manager'
+import { FileManager, emptyReport, DEFAULT_FOLDER_HIERARCHY } from './src/files-manager'
+import { ChangePlanModal } from './src/plan-modal'
+import { ChangePlan } from './src/interfaces/plan-interface'
+import { SyncScheduler, ScanResult } from './src/scheduler'
+import { ConflictModal, ConflictChoice } from './src/conflict-modal'
+import { OrphanModal, OrphanChoice } from './src/orphan-modal'
+import { DuplicateModal, DuplicateChoice } from './src/duplicate-modal'
+import { stripID } from './src/duplicates'
+import { SyncReport } from './src/interfaces/report-interface'
+import { SyncReportModal } from './src/report-modal'
+import { loadNoteTypes, syncNoteTypes } from './src/note-types'
 
 export default class MyPlugin extends Plugin {
 
 	settings: PluginSettings
 	note_types: Array<string>
 	fields_dict: Record<string, string[]>
-	added_media: string[]
+	added_media: Record<string, string>
 	file_hashes: Record<string, string>
+	file_stats: Record<string, FileStat>
+	// When each file was last changed according to vault events, until a scan reads it
+	dirty_files: Record<string, number>
+	saveDirtyFiles: () => void
+	note_states: Record<number, NoteState>
+	// Whether the notes of files unchanged since before note states were kept have been recorded
+	note_states_backfilled: boolean
+	renamed_files: string[]
+	// Notes being added to Anki whose IDs aren't in their files yet
+	journal: JournalEntry[]
+	// The files each note ID is meant to be in more than once
+	intended_duplicates: Record<number, string[]>
+	last_report: SyncReport | null
+	managed_note_types: Record<string, string>
+	// The code theme and math preamble hash last put in note types
+	applied_styles: Record<string, string>
+	scanning: boolean
+	// How many scans have run, to tell whether one ran while a preview was open
+	scans_run: number
+	// The manager of the scan in progress, so that it can be cancelled
+	sync_manager: FileManager | null
+	scheduler: SyncScheduler
 
-	async getDefaultSettings(): Promise<PluginSettings> {
+	getDefaultSettings(): PluginSettings {
+		/*Settings from scratch, without any note types until Anki can be reached to get them.*/
 		let settings: PluginSettings = {
 			CUSTOM_REGEXPS: {},
 			FILE_LINK_FIELDS: {},
 			CONTEXT_FIELDS: {},
 			FOLDER_DECKS: {},
 			FOLDER_TAGS: {},
+			FOLDER_HEADINGS: {},
 			Syntax: {
 				"Begin Note": "START",
 				"End Note": "END",
@@ -29,7 +68,11 @@ export default class MyPlugin extends Plugin {
 				"Target Deck Line": "TARGET DECK",
 				"File Tags Line": "FILE TAGS",
 				"Delete Note Line": "DELETE",
-				"Frozen Fields Line": "FROZEN"
+				"Frozen Fields Line": "FROZEN",
+				"Separator": "::",
+				"Reversed Separator": ":::",
+				"Multi-line Separator": "?",
+				"Callout Type": "anki"
 			},
 			Defaults: {
 				"Tag": "Obsidian_to_Anki",
@@ -41,20 +84,48 @@ export default class MyPlugin extends Plugin {
 				"CurlyCloze - Highlights to Clozes": false,
 				"ID Comments": true,
 				"Add Obsidian Tags": false,
-			}
+				"Two-Way Sync": false,
+				"Heading Note Type": "Basic",
+				"Separator Syntax": false,
+				"Separator Note Type": "Basic",
+				"Reversed Separator Note Type": "Basic (and reversed card)",
+				"Code Theme": DEFAULT_CODE_THEME,
+				"Math Preamble": "",
+				"Note Types File": ""
+			},
+			Transport: Object.assign({}, AnkiConnect.DEFAULT_TRANSPORT),
+			"Media Types": Object.assign({}, DEFAULT_MEDIA_TYPES),
+			"Tag Mappings": [],
+			"Excluded Paths": [],
+			"Folder Hierarchy": Object.assign({}, DEFAULT_FOLDER_HIERARCHY)
 		}
-		/*Making settings from scratch, so need note types*/
+		AnkiConnect.setTransport(settings.Transport)
+		this.note_types = []
+		this.fields_dict = {}
+		return settings
+	}
+
+	async addNoteTypeSettings(settings: PluginSettings): Promise<void> {
+		/*Get the note types in Anki and their fields, and add the settings of any that don't have them yet.*/
 		this.note_types = await AnkiConnect.invoke('modelNames') as Array<string>
 		this.fields_dict = await this.generateFieldsDict()
 		for (let note_type of this.note_types) {
-			settings["CUSTOM_REGEXPS"][note_type] = ""
-			const field_names: string[] = await AnkiConnect.invoke(
-	            'modelFieldNames', {modelName: note_type}
-	        ) as string[]
-			this.fields_dict[note_type] = field_names
-			settings["FILE_LINK_FIELDS"][note_type] = field_names[0]
+			if (!(settings["CUSTOM_REGEXPS"].hasOwnProperty(note_type))) {
+				settings["CUSTOM_REGEXPS"][note_type] = ""
+			}
+			if (!(settings["FILE_LINK_FIELDS"].hasOwnProperty(note_type))) {
+				settings["FILE_LINK_FIELDS"][note_type] = this.fields_dict[note_type][0]
+			}
 		}
-		return settings
+	}
+
+	async addMissingNoteTypes(): Promise<void> {
+		/*Get the note types from Anki if they couldn't be when the plugin loaded, e.g. as the AnkiConnect settings weren't set up yet.*/
+		if (this.note_types.length && this.note_types.every(note_type => this.fields_dict.hasOwnProperty(note_type))) {
+			return
+		}
+		await this.addNoteTypeSettings(this.settings)
+		await this.saveAllData()
 	}
 
 	async generateFieldsDict(): Promise<Record<string, string[]>> {
@@ -69,12 +140,22 @@ export default class MyPlugin extends Plugin {
 	}
 
 	async saveDefault(): Promise<void> {
-		const default_sets = await this.getDefaultSettings()
-		this.saveData(
+		const default_sets = this.getDefaultSettings()
+		await this.saveData(
 			{
 				settings: default_sets,
-				"Added Media": [],
+				"Added Media": {},
 				"File Hashes": {},
+				"File Stats": {},
+				"Dirty Files": {},
+				"Note States": {},
+				"Note States Backfilled": true,
+				"Renamed Files": [],
+				"Sync Journal": [],
+				"Intended Duplicates": {},
+				"Last Sync Report": null,
+				"Managed Note Types": {},
+				"Applied Styles": {},
 				fields_dict: {}
 			}
 		)
@@ -82,29 +163,84 @@ export default class MyPlugin extends Plugin {
 
 	async loadSettings(): Promise<PluginSettings> {
 		let current_data = await this.loadData()
-		if (current_data == null || Object.keys(current_data).length != 4) {
+		if (current_data == null || !(current_data.hasOwnProperty("settings"))) {
 			new Notice("Need to connect to Anki generate default settings...")
-			const default_sets = await this.getDefaultSettings()
-			this.saveData(
+			const default_sets = this.getDefaultSettings()
+			try {
+				await this.addNoteTypeSettings(default_sets)
+				new Notice("Default settings successfully generated!")
+			}
+			catch(e) {
+				// Left until a scan or the note type table can reach Anki, so that the AnkiConnect settings can be set up first
+				console.error(e)
+				new Notice("Couldn't connect to Anki! Check the AnkiConnect settings, then regenerate the note type table.")
+			}
+			await this.saveData(
 				{
 					settings: default_sets,
-					"Added Media": [],
+					"Added Media": {},
 					"File Hashes": {},
-					fields_dict: {}
+					"File Stats": {},
+					"Dirty Files": {},
+					"Note States": {},
+					"Note States Backfilled": true,
+					"Renamed Files": [],
+					"Sync Journal": [],
+					"Intended Duplicates": {},
+					"Last Sync Report": null,
+					"Managed Note Types": {},
+					"Applied Styles": {},
+					fields_dict: this.fields_dict
 				}
 			)
-			new Notice("Default settings successfully generated!")
 			return default_sets
 		} else {
-			return current_data.settings
+			let settings: PluginSettings = current_data.settings
+			// To account for new transport settings
+			if (!(settings.hasOwnProperty("Transport"))) {
+				settings.Transport = Object.assign({}, AnkiConnect.DEFAULT_TRANSPORT)
+			}
+			// To account for new heading cards
+			if (!(settings.hasOwnProperty("FOLDER_HEADINGS"))) {
+				settings.FOLDER_HEADINGS = {}
+			}
+			// To account for new separator syntax
+			// and callouts
+			const new_syntax: Record<string, string> = {"Separator": "::", "Reversed Separator": ":::", "Multi-line Separator": "?", "Callout Type": "anki"}
+			for (let key in new_syntax) {
+				if (!(settings.Syntax.hasOwnProperty(key))) {
+					settings.Syntax[key as keyof PluginSettings["Syntax"]] = new_syntax[key]
+				}
+			}
+			// To account for new media types
+			if (!(settings.hasOwnProperty("Media Types"))) {
+				settings["Media Types"] = Object.assign({}, DEFAULT_MEDIA_TYPES)
+			}
+			// To account for new tag mappings
+			if (!(settings.hasOwnProperty("Tag Mappings"))) {
+				settings["Tag Mappings"] = []
+			}
+			// To account for new exclusions
+			if (!(settings.hasOwnProperty("Excluded Paths"))) {
+				settings["Excluded Paths"] = []
+			}
+			// To account for new folder hierarchy decks
+			if (!(settings.hasOwnProperty("Folder Hierarchy"))) {
+				settings["Folder Hierarchy"] = Object.assign({}, DEFAULT_FOLDER_HIERARCHY)
+			}
+			AnkiConnect.setTransport(settings.Transport)
+			return settings
 		}
 	}
 
-	async loadAddedMedia(): Promise<string[]> {
+	async loadAddedMedia(): Promise<Record<string, string>> {
 		let current_data = await this.loadData()
 		if (current_data == null) {
 			await this.saveDefault()
-			return []
+			return {}
+		} else if (Array.isArray(current_data["Added Media"])) {
+			// Media used to be cached by name, so it all needs adding again under its new name
+			return {}
 		} else {
 			return current_data["Added Media"]
 		}
@@ -120,6 +256,86 @@ export default class MyPlugin extends Plugin {
 		}
 	}
 
+	async loadFileStats(): Promise<Record<string, FileStat>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("File Stats"))) {
+			return {}
+		}
+		return current_data["File Stats"]
+	}
+
+	async loadDirtyFiles(): Promise<Record<string, number>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Dirty Files"))) {
+			return {}
+		}
+		return current_data["Dirty Files"]
+	}
+
+	async loadNoteStates(): Promise<Record<number, NoteState>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Note States"))) {
+			return {}
+		}
+		return current_data["Note States"]
+	}
+
+	async loadNoteStatesBackfilled(): Promise<boolean> {
+		let current_data = await this.loadData()
+		if (current_data == null) {
+			return true
+		}
+		return current_data["Note States Backfilled"] === true
+	}
+
+	async loadRenamedFiles(): Promise<string[]> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Renamed Files"))) {
+			return []
+		}
+		return current_data["Renamed Files"]
+	}
+
+	async loadJournal(): Promise<JournalEntry[]> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Sync Journal"))) {
+			return []
+		}
+		return current_data["Sync Journal"]
+	}
+
+	async loadIntendedDuplicates(): Promise<Record<number, string[]>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Intended Duplicates"))) {
+			return {}
+		}
+		return current_data["Intended Duplicates"]
+	}
+
+	async loadLastReport(): Promise<SyncReport | null> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Last Sync Report"))) {
+			return null
+		}
+		return current_data["Last Sync Report"]
+	}
+
+	async loadManagedNoteTypes(): Promise<Record<string, string>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Managed Note Types"))) {
+			return {}
+		}
+		return current_data["Managed Note Types"]
+	}
+
+	async loadAppliedStyles(): Promise<Record<string, string>> {
+		let current_data = await this.loadData()
+		if (current_data == null || !(current_data.hasOwnProperty("Applied Styles"))) {
+			return {}
+		}
+		return current_data["Applied Styles"]
+	}
+
 	async loadFieldsDict(): Promise<Record<string, string[]>> {
 		let current_data = await this.loadData()
 		if (current_data == null) {
@@ -131,11 +347,21 @@ export default class MyPlugin extends Plugin {
 	}
 
 	async saveAllData(): Promise<void> {
-		this.saveData(
+		await this.saveData(
 				{
 					settings: this.settings,
 					"Added Media": this.added_media,
 					"File Hashes": this.file_hashes,
+					"File Stats": this.file_stats,
+					"Dirty Files": this.dirty_files,
+					"Note States": this.note_states,
+					"Note States Backfilled": this.note_states_backfilled,
+					"Renamed Files": this.renamed_files,
+					"Sync Journal": this.journal,
+					"Intended Duplicates": this.intended_duplicates,
+					"Last Sync Report": this.last_report,
+					"Managed Note Types": this.managed_note_types,
+					"Applied Styles": this.applied_styles,
 					fields_dict: this.fields_dict
 				}
 		)
@@ -155,57 +381,559 @@ export default class MyPlugin extends Plugin {
 		}
 	}
 
-	async scanVault() {
-		new Notice('Scanning vault, check console for details...');
+	async updateNoteTypes(quiet: boolean = false) {
+		/*Create and update the note types in the note types file, then refresh their fields.*/
+		const path: string = this.settings.Defaults["Note Types File"]
+		const [definitions, file_errors] = await loadNoteTypes(this.app, path)
+		if (file_errors.length) {
+			console.warn("Problems with the note types file: ", file_errors)
+			this.notify("Problems with the note types file " + path + ": " + file_errors.join("; "), quiet)
+		}
+		const result = await syncNoteTypes(definitions, this.managed_note_types)
+		if (result.errors.length) {
+			console.warn("Problems updating note types: ", result.errors)
+			this.notify(result.errors.join("; "), quiet)
+		}
+		const changed: string[] = result.created.concat(result.updated)
+		if (!(changed.length)) {
+			return
+		}
+		this.note_types = await AnkiConnect.invoke('modelNames') as Array<string>
+		this.regenerateSettingsRegexps()
+		for (let note_type of changed) {
+			this.fields_dict[note_type] = await AnkiConnect.invoke(
+				'modelFieldNames', {modelName: note_type}
+			) as string[]
+			if (!(this.settings.FILE_LINK_FIELDS.hasOwnProperty(note_type))) {
+				this.settings.FILE_LINK_FIELDS[note_type] = this.fields_dict[note_type][0]
+			}
+		}
+		this.notify("Created " + result.created.length + " and updated " + result.updated.length + " note type(s) from " + path + ".", quiet)
+		await this.saveAllData()
+	}
+
+	notify(message: string, quiet: boolean = false) {
+		// Background scans only log to the console, rather than interrupting with notices
+		if (quiet) {
+			console.info(message)
+		} else {
+			new Notice(message)
+		}
+	}
+
+	async checkConnection(quiet: boolean = false): Promise<boolean> {
 		console.info("Checking connection to Anki...")
 		try {
 			await AnkiConnect.invoke('modelNames')
 		}
 		catch(e) {
-			new Notice("Error, couldn't connect to Anki! Check console for error message.")
-			return
+			console.error(e)
+			if (e instanceof AnkiConnect.AnkiConnectError) {
+				this.notify("Error, couldn't connect to Anki at " + AnkiConnect.getUrl() + " (" + e.name + ": " + e.message + ")", quiet)
+			} else {
+				this.notify("Error, couldn't connect to Anki! Check console for error message.", quiet)
+			}
+			return false
 		}
-		new Notice("Successfully connected to Anki! This could take a few minutes - please don't close Anki until the plugin is finished")
-		const data: ParsedSettings = await settingToData(this.app, this.settings, this.fields_dict)
-		const manager = new FileManager(this.app, data, this.app.vault.getMarkdownFiles(), this.file_hashes, this.added_media)
-		await manager.initialiseFiles()
-		await manager.requests_1()
-		this.added_media = Array.from(manager.added_media_set)
+		return true
+	}
+
+	async saveScanResults(manager: FileManager, quiet: boolean = false) {
+		this.added_media = manager.added_media
 		const hashes = manager.getHashes()
 		for (let key in hashes) {
 			this.file_hashes[key] = hashes[key]
 		}
-		new Notice("All done! Saving file hashes and added media now...")
+		this.renamed_files = this.renamed_files.filter(path => !(hashes.hasOwnProperty(path)))
+		const stats = manager.getStats()
+		for (let path in stats) {
+			this.file_stats[path] = stats[path]
+			if (this.dirty_files[path] < manager.started) {
+				delete this.dirty_files[path]
+			}
+		}
+		this.last_report = manager.report
+		const report = manager.report
+		let summary: string = (
+			report.result === "cancelled" ? "Sync cancelled! " : report.result === "failed" ? "Sync stopped early! " : "All done! "
+		) + "Added " + report.added + ", updated " + report.updated + " and deleted " + report.deleted + " note(s)."
+		if (report.files_excluded.length) {
+			summary += " " + report.files_excluded.length + " file(s) were excluded."
+		}
+		if (report.issues.length) {
+			summary += " " + report.issues.length + " problem(s) found, run 'Show Last Sync Report' for details."
+		}
+		this.notify(summary, quiet)
 		this.saveAllData()
 	}
 
-	async onload() {
-		console.log('loading Obsidian_to_Anki...');
-		addIcon('anki', ANKI_ICON)
+	async syncManager(manager: FileManager): Promise<ScanResult> {
+		/*Sync the files of manager to Anki in batches, showing progress in the status bar, and save the results.*/
+		manager.onProgress = (done: number, total: number) => this.scheduler.setProgress(done, total)
+		this.sync_manager = manager
+		try {
+			await manager.sync()
+		} finally {
+			this.sync_manager = null
+		}
+		if (manager.batch_error instanceof AnkiConnect.AnkiConnectionError || manager.batch_error instanceof AnkiConnect.AnkiTimeoutError) {
+			return "unreachable"
+		}
+		return manager.batch_error ? "failed" : manager.report.result === "cancelled" ? "cancelled" : "success"
+	}
 
+	async runScan(quiet: boolean, scan: () => Promise<ScanResult>): Promise<ScanResult> {
+		/*Run scan unless another one is in progress, and show the result in the status bar.*/
+		if (this.scanning) {
+			this.notify("A scan is already in progress!", quiet)
+			return "busy"
+		}
+		this.scanning = true
+		this.scans_run += 1
+		this.scheduler.setRunning()
+		let result: ScanResult
 		try {
-			this.settings = await this.loadSettings()
+			result = await scan()
+		} catch(e) {
+			console.error(e)
+			const unreachable: boolean = e instanceof AnkiConnect.AnkiConnectionError || e instanceof AnkiConnect.AnkiTimeoutError
+			result = unreachable ? "unreachable" : "failed"
+			this.notify("Error during scan! Run 'Show Last Sync Report' for details.", quiet)
+			this.last_report = emptyReport()
+			this.last_report.issues.push({level: "error", path: "", line: null, message: e.name + ": " + e.message})
+			this.last_report.finished = new Date().toISOString()
+			this.last_report.result = result
+			this.saveAllData()
+		} finally {
+			this.scanning = false
 		}
-		catch(e) {
-			new Notice("Couldn't connect to Anki! Check console for error message.")
+		this.scheduler.recordResult(result)
+		return result
+	}
+
+	getMarkdownFilesIn(abstract_files: TAbstractFile[]): TFile[] {
+		/*Markdown files among abstract_files, including those inside any folders.*/
+		let files: TFile[] = []
+		const add_file = (abstract_file: TAbstractFile) => {
+			if (abstract_file instanceof TFile && abstract_file.extension === "md" && !(files.includes(abstract_file))) {
+				files.push(abstract_file)
+			}
+		}
+		for (let abstract_file of abstract_files) {
+			if (abstract_file instanceof TFolder) {
+				Vault.recurseChildren(abstract_file, add_file)
+			} else {
+				add_file(abstract_file)
+			}
+		}
+		return files
+	}
+
+	async scanVault(quiet: boolean = false): Promise<ScanResult> {
+		return await this.scanFiles(this.app.vault.getMarkdownFiles(), quiet)
+	}
+
+	newFileManager(data: ParsedSettings, files: TFile[]): FileManager {
+		let manager = new FileManager(this.app, data, files, this.file_hashes, this.added_media, this.note_states, this.file_stats, Object.keys(this.dirty_files))
+		manager.journal = this.journal
+		manager.applied_styles = this.applied_styles
+		manager.saveJournal = async () => await this.saveAllData()
+		return manager
+	}
+
+	async recoverJournal(manager: FileManager, quiet: boolean = false) {
+		/*Write the note IDs left in the journal by an interrupted sync into their files.*/
+		if (!(this.journal.length)) {
 			return
 		}
+		await manager.recoverJournal()
+		await this.saveAllData()
+		if (manager.report.recovered.length) {
+			this.notify(
+				"Recovered the IDs of " + manager.report.recovered.length + " note(s) added by an interrupted sync, run 'Show Last Sync Report' for details.", quiet
+			)
+		}
+	}
+
+	async recoverAtStartup() {
+		/*Recover the journal of a sync interrupted by Obsidian closing, if Anki can be reached.*/
+		if (!(this.journal.length) || this.scanning || !(await this.checkConnection(true))) {
+			return
+		}
+		this.scanning = true
+		try {
+			const data: ParsedSettings = await settingToData(this.app, this.settings, this.fields_dict)
+			const manager = this.newFileManager(data, [])
+			await this.recoverJournal(manager)
+			manager.finishReport("recovered")
+			this.last_report = manager.report
+			await this.saveAllData()
+		} catch(e) {
+			// Left for the next scan to try again
+			console.error(e)
+		} finally {
+			this.scanning = false
+		}
+	}
+
+	async scanFiles(files: TFile[], quiet: boolean = false, read_all: boolean = false): Promise<ScanResult> {
+		/*Scan files, only reading those that could have changed since the last scan unless read_all is set.*/
+		return await this.runScan(quiet, async () => {
+			if (files.length == this.app.vault.getMarkdownFiles().length) {
+				this.notify('Scanning vault, check console for details...', quiet)
+			} else {
+				this.notify('Scanning ' + files.length.toString() + ' file(s), check console for details...', quiet)
+			}
+			if (!(await this.checkConnection(quiet))) {
+				return "unreachable"
+			}
+			this.notify("Successfully connected to Anki! This could take a few minutes - please don't close Anki until the plugin is finished", quiet)
+			await this.addMissingNoteTypes()
+			await this.updateNoteTypes(quiet)
+			const data: ParsedSettings = await settingToData(this.app, this.settings, this.fields_dict)
+			const manager = this.newFileManager(data, files)
+			// The first scan of the whole vault reads every file, to record the notes in those that haven't changed
+			const backfill: boolean = !(this.note_states_backfilled) && files.length == this.app.vault.getMarkdownFiles().length
+			manager.read_all = read_all || backfill
+			manager.backfill_states = backfill
+			await this.recoverJournal(manager, quiet)
+			manager.forceScan(this.renamed_files, "it was renamed or moved.")
+			await manager.findAnkiEdits()
+			await manager.initialiseFiles()
+			await manager.findDuplicateIDs(this.intended_duplicates)
+			await manager.resolveAnkiEdits()
+			const result: ScanResult = await this.syncManager(manager)
+			if (backfill && result === "success") {
+				this.note_states_backfilled = true
+			}
+			await this.saveScanResults(manager, quiet)
+			this.showConflicts(manager.conflicts, quiet)
+			this.showDuplicates(manager.duplicates, quiet)
+			this.showOrphans(quiet)
+			return result
+		})
+	}
+
+	async previewScan() {
+		/*Show what a scan of the vault would change, and apply the selected changes once confirmed.
+
+		Nothing is applied if another scan ran or any of the files were edited while the preview was open.*/
+		let manager: FileManager
+		let plan: ChangePlan
+		const preview_result: ScanResult = await this.runScan(false, async () => {
+			new Notice('Generating scan preview, check console for details...');
+			if (!(await this.checkConnection())) {
+				return "unreachable"
+			}
+			await this.addMissingNoteTypes()
+			// Note types from the note types file are only created or updated once the preview is applied
+			const data: ParsedSettings = await settingToData(this.app, this.settings, this.fields_dict)
+			manager = this.newFileManager(data, this.app.vault.getMarkdownFiles())
+			await this.recoverJournal(manager)
+			manager.forceScan(this.renamed_files, "it was renamed or moved.")
+			await manager.findAnkiEdits()
+			await manager.initialiseFiles()
+			await manager.findDuplicateIDs(this.intended_duplicates)
+			await manager.resolveAnkiEdits()
+			plan = await manager.getChangePlan()
+			return "previewed"
+		})
+		if (preview_result !== "previewed") {
+			return
+		}
+		const scans_run: number = this.scans_run
+		new ChangePlanModal(this.app, plan, async (plan) => {
+			await this.runScan(false, async () => {
+				if (this.scans_run !== scans_run + 1) {
+					new Notice("Another scan ran after the preview was generated, so nothing was applied. Run 'Preview Scan' again.")
+					return "cancelled"
+				}
+				const edited: string[] = await manager.editedFiles()
+				if (edited.length) {
+					console.warn("Not applying the preview, as these files were edited after it was generated: ", edited)
+					new Notice(edited.length + " file(s) were edited after the preview was generated, so nothing was applied. Run 'Preview Scan' again.")
+					return "cancelled"
+				}
+				new Notice("Applying changes - please don't close Anki until the plugin is finished")
+				await this.updateNoteTypes()
+				await manager.applyPlan(plan)
+				const result: ScanResult = await this.syncManager(manager)
+				await this.saveScanResults(manager)
+				this.showConflicts(manager.conflicts, false)
+				this.showDuplicates(manager.duplicates, false)
+				this.showOrphans(false)
+				return result
+			})
+		}).open()
+	}
+
+	showConflicts(conflicts: NoteConflict[], quiet: boolean) {
+		if (!(conflicts.length)) {
+			return
+		}
+		if (quiet) {
+			// Left for the next manual scan to show, rather than interrupting
+			console.warn(conflicts.length, " note(s) were changed in both Obsidian and Anki, and weren't synced.")
+			return
+		}
+		new ConflictModal(this.app, conflicts, async (conflicts, choices) => await this.resolveConflicts(conflicts, choices)).open()
+	}
+
+	async resolveConflicts(conflicts: NoteConflict[], choices: ConflictChoice[]) {
+		/*Set the last synced state of each note so the next scan only sees the chosen side as changed.*/
+		let files: TFile[] = []
+		conflicts.forEach(
+			(conflict, index) => {
+				if (choices[index] === "obsidian") {
+					this.note_states[conflict.identifier] = {path: conflict.path, fields: conflict.anki_fields}
+				} else if (choices[index] === "anki") {
+					this.note_states[conflict.identifier] = {path: conflict.path, fields: conflict.obsidian_fields}
+				} else {
+					return
+				}
+				const file = this.app.vault.getAbstractFileByPath(conflict.path)
+				if (file instanceof TFile && !(files.includes(file))) {
+					files.push(file)
+				}
+			}
+		)
+		await this.saveAllData()
+		if (files.length) {
+			await this.scanFiles(files)
+		}
+	}
+
+	showDuplicates(duplicates: DuplicateID[], quiet: boolean) {
+		if (!(duplicates.length)) {
+			return
+		}
+		if (quiet) {
+			console.warn(duplicates.length, " note ID(s) are in more than one place in the vault, and their notes weren't updated.")
+			return
+		}
+		new DuplicateModal(this.app, duplicates, async (duplicates, choices) => await this.resolveDuplicates(duplicates, choices)).open()
+	}
+
+	async resolveDuplicates(duplicates: DuplicateID[], choices: DuplicateChoice[]) {
+		/*Take each duplicated ID out of every place but the chosen one, or remember that the duplicates are intended.*/
+		let files: TFile[] = []
+		for (let [index, duplicate] of duplicates.entries()) {
+			const choice: DuplicateChoice = choices[index]
+			if (choice === "later") {
+				continue
+			}
+			if (choice === "intended") {
+				this.intended_duplicates[duplicate.identifier] = Array.from(new Set(duplicate.locations.map(location => location.path)))
+			}
+			// From the bottom up, so the lines of any others in the same file stay the same
+			const to_strip = choice === "intended" ? [] : duplicate.locations.filter((_location, location_index) => location_index !== choice).sort(
+				(a, b) => b.line - a.line
+			)
+			for (let location of to_strip) {
+				const file = this.app.vault.getAbstractFileByPath(location.path)
+				if (!(file instanceof TFile)) {
+					continue
+				}
+				const stripped: string | null = stripID(await this.app.vault.read(file), location.line, duplicate.identifier)
+				if (stripped === null) {
+					new Notice("Couldn't find the ID of note " + duplicate.identifier + " in " + location.path + " at line " + location.line + ", as it's been edited since the scan.")
+					continue
+				}
+				await this.app.vault.modify(file, stripped)
+			}
+			for (let location of duplicate.locations) {
+				const file = this.app.vault.getAbstractFileByPath(location.path)
+				if (file instanceof TFile && !(files.includes(file))) {
+					files.push(file)
+				}
+			}
+		}
+		await this.saveAllData()
+		if (files.length) {
+			await this.scanFiles(files)
+		}
+	}
+
+	getOrphanTag(): string {
+		return this.settings.Defaults.Tag + "::orphaned"
+	}
+
+	getOrphans(): Array<[number, NoteState]> {
+		return Object.keys(this.note_states).map(
+			(key): [number, NoteState] => [parseInt(key), this.note_states[parseInt(key)]]
+		).filter(([_identifier, state]) => state.orphaned)
+	}
+
+	showOrphans(quiet: boolean, always: boolean = false) {
+		const orphans = this.getOrphans()
+		if (!(orphans.length)) {
+			if (always) {
+				new Notice("No orphaned notes found!")
+			}
+			return
+		}
+		if (quiet) {
+			console.warn(orphans.length, " note(s) in Anki can no longer be found in the vault.")
+			return
+		}
+		new OrphanModal(this.app, orphans, this.getOrphanTag(), async (orphans, choices) => await this.resolveOrphans(orphans, choices)).open()
+	}
+
+	async resolveOrphans(orphans: Array<[number, NoteState]>, choices: OrphanChoice[]) {
+		const with_choice = (choice: OrphanChoice): number[] => orphans.filter(
+			(_orphan, index) => choices[index] === choice
+		).map(([identifier, _state]) => identifier)
+		const to_delete: number[] = with_choice("delete")
+		const to_retag: number[] = with_choice("retag")
+		try {
+			await AnkiConnect.invoke('multi', {actions: [
+				AnkiConnect.deleteNotes(to_delete),
+				AnkiConnect.addTags(to_retag, this.getOrphanTag())
+			]})
+		} catch(e) {
+			console.error(e)
+			new Notice("Couldn't update orphaned notes in Anki! Check console for error message.")
+			return
+		}
+		// Once dealt with, the notes are no longer tracked
+		for (let identifier of to_delete.concat(to_retag).concat(with_choice("keep"))) {
+			delete this.note_states[identifier]
+		}
+		await this.saveAllData()
+		new Notice("Deleted " + to_delete.length.toString() + " and tagged " + to_retag.length.toString() + " orphaned note(s).")
+	}
+
+	markDirty(file: TAbstractFile) {
+		if (file instanceof TFile && file.extension === "md") {
+			this.dirty_files[file.path] = Date.now()
+			this.saveDirtyFiles()
+		}
+	}
+
+	async onDelete(file: TAbstractFile) {
+		/*Forget the hashes and stats of deleted files, so they're scanned afresh if they come back.*/
+		const deleted = (path: string): boolean => path === file.path || (file instanceof TFolder && path.startsWith(file.path + "/"))
+		for (let record of [this.file_hashes, this.file_stats, this.dirty_files] as Array<Record<string, any>>) {
+			for (let path of Object.keys(record).filter(deleted)) {
+				delete record[path]
+			}
+		}
+		this.renamed_files = this.renamed_files.filter(path => !(deleted(path)))
+		await this.saveAllData()
+	}
+
+	async onRename(file: TAbstractFile, old_path: string) {
+		/*Move everything keyed by the old path over to the new one.
+
+		The file is then rescanned on the next sync, to update links, context and decks in Anki.*/
+		const renamed = (path: string): string | null => {
+			if (path === old_path) {
+				return file.path
+			}
+			if (file instanceof TFolder && path.startsWith(old_path + "/")) {
+				return file.path + path.slice(old_path.length)
+			}
+			return null
+		}
+		this.renamed_files = this.renamed_files.map(path => renamed(path) || path)
+		for (let path of Object.keys(this.file_hashes)) {
+			const new_path = renamed(path)
+			if (new_path === null) {
+				continue
+			}
+			this.file_hashes[new_path] = this.file_hashes[path]
+			delete this.file_hashes[path]
+			if (!(this.renamed_files.includes(new_path))) {
+				this.renamed_files.push(new_path)
+			}
+		}
+		for (let record of [this.file_stats, this.dirty_files] as Array<Record<string, any>>) {
+			for (let path of Object.keys(record)) {
+				const new_path = renamed(path)
+				if (new_path !== null) {
+					record[new_path] = record[path]
+					delete record[path]
+				}
+			}
+		}
+		for (let key in this.note_states) {
+			const new_path = renamed(this.note_states[key].path)
+			if (new_path !== null) {
+				this.note_states[key].path = new_path
+			}
+		}
+		for (let key in this.intended_duplicates) {
+			this.intended_duplicates[key] = this.intended_duplicates[key].map(path => renamed(path) || path)
+		}
+		const folder_sections: Array<Record<string, string | number>> = [this.settings.FOLDER_DECKS, this.settings.FOLDER_TAGS, this.settings.FOLDER_HEADINGS]
+		for (let folder_section of folder_sections) {
+			for (let path of Object.keys(folder_section)) {
+				const new_path = renamed(path)
+				if (new_path !== null) {
+					folder_section[new_path] = folder_section[path]
+					delete folder_section[path]
+				}
+			}
+		}
+		await this.saveAllData()
+	}
+
+	async onload() {
+		console.log('loading Obsidian_to_Anki...');
+		addIcon('anki', ANKI_ICON)
+
+		this.settings = await this.loadSettings()
 
 		this.note_types = Object.keys(this.settings["CUSTOM_REGEXPS"])
 		this.fields_dict = await this.loadFieldsDict()
-		if (Object.keys(this.fields_dict).length == 0) {
+		if (Object.keys(this.fields_dict).length == 0 && this.note_types.length) {
 			new Notice('Need to connect to Anki to generate fields dictionary...')
 			try {
 				this.fields_dict = await this.generateFieldsDict()
 				new Notice("Fields dictionary successfully generated!")
 			}
 			catch(e) {
+				// Carries on, so that the AnkiConnect settings can still be changed
 				new Notice("Couldn't connect to Anki! Check console for error message.")
-				return
 			}
 		}
 		this.added_media = await this.loadAddedMedia()
 		this.file_hashes = await this.loadFileHashes()
+		this.file_stats = await this.loadFileStats()
+		this.dirty_files = await this.loadDirtyFiles()
+		// Edits come in every few seconds while typing, so they're saved together
+		this.saveDirtyFiles = debounce(() => this.saveAllData(), 10000, true)
+		this.note_states = await this.loadNoteStates()
+		this.note_states_backfilled = await this.loadNoteStatesBackfilled()
+		this.renamed_files = await this.loadRenamedFiles()
+		this.journal = await this.loadJournal()
+		this.intended_duplicates = await this.loadIntendedDuplicates()
+		this.last_report = await this.loadLastReport()
+		this.managed_note_types = await this.loadManagedNoteTypes()
+		this.applied_styles = await this.loadAppliedStyles()
+
+		this.registerEvent(
+			this.app.vault.on('rename', async (file: TAbstractFile, old_path: string) => await this.onRename(file, old_path))
+		)
+		this.registerEvent(
+			this.app.vault.on('modify', (file: TAbstractFile) => this.markDirty(file))
+		)
+		this.registerEvent(
+			this.app.vault.on('delete', async (file: TAbstractFile) => await this.onDelete(file))
+		)
+
+		this.scanning = false
+		this.scans_run = 0
+		this.sync_manager = null
+		this.scheduler = new SyncScheduler(this, async (quiet: boolean) => await this.scanVault(quiet))
+		this.scheduler.setInterval(this.settings.Defaults["Scheduling Interval"])
+		// Every file is reported as created while the vault loads, so only later ones are marked
+		this.app.workspace.onLayoutReady(async () => {
+			this.registerEvent(
+				this.app.vault.on('create', (file: TAbstractFile) => this.markDirty(file))
+			)
+			await this.recoverAtStartup()
+		})
 
 		this.addSettingTab(new SettingsTab(this.app, this));
 
@@ -220,6 +948,109 @@ export default class MyPlugin extends Plugin {
 			 	await this.scanVault()
 			 }
 		})
+
+		this.addCommand({
+			id: 'anki-full-rescan',
+			name: 'Full Rescan',
+			callback: async () => {
+				await this.scanFiles(this.app.vault.getMarkdownFiles(), false, true)
+			}
+		})
+
+		this.addCommand({
+			id: 'anki-sync-current-file',
+			name: 'Sync Current File',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile()
+				if (!(file) || file.extension !== "md") {
+					return false
+				}
+				if (!checking) {
+					this.scanFiles([file])
+				}
+				return true
+			}
+		})
+
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+				if (!(file instanceof TFolder)) {
+					return
+				}
+				menu.addItem(
+					item => item.setTitle("Sync this folder to Anki").setIcon("anki")
+					.onClick(async () => {
+						await this.scanFiles(this.getMarkdownFilesIn([file]))
+					})
+				)
+			})
+		)
+
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu: Menu, files: TAbstractFile[]) => {
+				menu.addItem(
+					item => item.setTitle("Sync selected files to Anki").setIcon("anki")
+					.onClick(async () => {
+						await this.scanFiles(this.getMarkdownFilesIn(files))
+					})
+				)
+			})
+		)
+
+		this.addCommand({
+			id: 'anki-cancel-sync',
+			name: 'Cancel Sync',
+			checkCallback: (checking: boolean) => {
+				if (!(this.sync_manager)) {
+					return false
+				}
+				if (!checking) {
+					this.sync_manager.cancel()
+					new Notice("Stopping after the current batch of files...")
+				}
+				return true
+			}
+		})
+
+		this.addCommand({
+			id: 'anki-show-orphans',
+			name: 'Show Orphaned Notes',
+			callback: () => {
+				this.showOrphans(false, true)
+			}
+		})
+
+		this.addCommand({
+			id: 'anki-show-sync-report',
+			name: 'Show Last Sync Report',
+			callback: () => {
+				new SyncReportModal(this.app, this.last_report).open()
+			}
+		})
+
+		this.addCommand({
+			id: 'anki-update-note-types',
+			name: 'Update Note Types',
+			callback: async () => {
+				if (!(await this.checkConnection())) {
+					return
+				}
+				try {
+					await this.updateNoteTypes()
+				} catch(e) {
+					console.error(e)
+					new Notice("Error updating note types! Check console for details.")
+				}
+			}
+		})
+
+		this.addCommand({
+			id: 'anki-preview-scan',
+			name: 'Preview Scan',
+			callback: async () => {
+				await this.previewScan()
+			}
+		})
 	}
 
 	async onunload() {
@@ -1,6 +1,24 @@
-const ANKI_PORT: number = 8765
-
 import { AnkiConnectNote } from './interfaces/note-interface'
+import { PluginSettings } from './interfaces/settings-interface'
+
+export type AnkiConnectTransport = PluginSettings["Transport"]
+
+export const DEFAULT_TRANSPORT: AnkiConnectTransport = {
+	"Host": "127.0.0.1",
+	"Port": 8765,
+	"Protocol": "http",
+	"API Key": "",
+	"Timeout": 30,
+	"Retries": 2,
+	"Retry Backoff": 500
+}
+
+// Actions that don't change anything in Anki, so are safe to retry after a timeout.
+const READ_ONLY_ACTIONS: string[] = [
+	'version', 'modelNames', 'modelFieldNames', 'deckNames', 'findNotes', 'notesInfo', 'cardsInfo', 'getTags', 'modelStyling', 'modelTemplates'
+]
+
+let transport: AnkiConnectTransport = DEFAULT_TRANSPORT
 
 export interface AnkiConnectRequest {
 	action: string,
@@ -8,49 +26,107 @@ export interface AnkiConnectRequest {
 	params: any
 }
 
-export function invoke(action: string, params={}) {
-    return new Promise((resolve, reject) => {
-        const xhr = new XMLHttpRequest()
-        xhr.addEventListener('error', () => reject('failed to issue request'));
-        xhr.addEventListener('load', () => {
-            try {
-                const response = JSON.parse(xhr.responseText);
-                if (Object.getOwnPropertyNames(response).length != 2) {
-                    throw 'response has an unexpected number of fields';
-                }
-                if (!response.hasOwnProperty('error')) {
-                    throw 'response is missing required error field';
-                }
-                if (!response.hasOwnProperty('result')) {
-                    throw 'response is missing required result field';
-                }
-                if (response.error) {
-                    throw response.error;
-                }
-                resolve(response.result);
-            } catch (e) {
-                reject(e);
-            }
-        });
-
-        xhr.open('POST', 'http://127.0.0.1:' + ANKI_PORT.toString());
-        xhr.send(JSON.stringify({action, version: 6, params}));
-    });
+export class AnkiConnectError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = this.constructor.name
+	}
+}
+
+export class AnkiConnectionError extends AnkiConnectError {
+	//Anki isn't running, AnkiConnect isn't installed, or the host/port is wrong.
+}
+
+export class AnkiTimeoutError extends AnkiConnectError {
+	//The request was sent, but Anki didn't answer in time.
+}
+
+export class AnkiResponseError extends AnkiConnectError {
+	//AnkiConnect answered with its error field set.
+}
+
+export class AnkiMalformedResponseError extends AnkiConnectError {
+	//The answer wasn't a valid AnkiConnect response.
+}
+
+export function setTransport(new_transport: AnkiConnectTransport) {
+	//Keeps a reference, so edits to the settings object apply to the next request.
+	transport = new_transport
+}
+
+export function getUrl(): string {
+	return transport["Protocol"] + "://" + transport["Host"] + ":" + transport["Port"].toString()
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function send(action: string, params: any): Promise<unknown> {
+	return new Promise((resolve, reject) => {
+		const url = getUrl()
+		const xhr = new XMLHttpRequest()
+		xhr.addEventListener('error', () => reject(new AnkiConnectionError('failed to connect to AnkiConnect at ' + url)))
+		xhr.addEventListener('timeout', () => reject(new AnkiTimeoutError('AnkiConnect did not respond to ' + action + ' within ' + transport["Timeout"].toString() + 's')))
+		xhr.addEventListener('load', () => {
+			try {
+				if (xhr.status !== 200) {
+					throw new AnkiMalformedResponseError('AnkiConnect responded with HTTP status ' + xhr.status.toString())
+				}
+				let response: any
+				try {
+					response = JSON.parse(xhr.responseText)
+				} catch (e) {
+					throw new AnkiMalformedResponseError('response is not valid JSON')
+				}
+				resolve(parse(response))
+			} catch (e) {
+				reject(e)
+			}
+		})
+
+		xhr.open('POST', url)
+		xhr.timeout = transport["Timeout"] * 1000
+		let body: Record<string, any> = {action, version: 6, params}
+		if (transport["API Key"]) {
+			body.key = transport["API Key"]
+		}
+		xhr.send(JSON.stringify(body))
+	})
+}
+
+export async function invoke(action: string, params={}): Promise<unknown> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await send(action, params)
+		} catch (e) {
+			// A timed out request may still have been carried out, so only repeat it if that's harmless
+			const retryable: boolean = e instanceof AnkiConnectionError || (e instanceof AnkiTimeoutError && READ_ONLY_ACTIONS.includes(action))
+			if (!retryable || attempt >= transport["Retries"]) {
+				throw e
+			}
+			console.warn("AnkiConnect request failed, retrying: ", e.message)
+			await sleep(transport["Retry Backoff"] * 2 ** attempt)
+		}
+	}
 }
 
 export function parse<T>(response: {error: string, result: T}): T {
-	//Helper function for parsing the result of a multi
+	//Helper function for parsing an AnkiConnect response, including the results of a multi
+	if (response === null || typeof response !== "object") {
+		throw new AnkiMalformedResponseError('response is not an object')
+	}
 	if (Object.getOwnPropertyNames(response).length != 2) {
-		throw 'response has an unexpected number of fields'
+		throw new AnkiMalformedResponseError('response has an unexpected number of fields')
 	}
 	if (!(response.hasOwnProperty('error'))) {
-		throw 'response is missing required error field'
+		throw new AnkiMalformedResponseError('response is missing required error field')
 	}
 	if (!(response.hasOwnProperty('result'))) {
-		throw 'response is missing required result field';
+		throw new AnkiMalformedResponseError('response is missing required result field')
 	}
 	if (response.error) {
-		throw response.error
+		throw new AnkiResponseError(response.error)
 	}
 	return response.result
 }
@@ -92,6 +168,14 @@ export function notesInfo(note_ids: number[]): AnkiConnectRequest {
 	)
 }
 
+export function cardsInfo(card_ids: number[]): AnkiConnectRequest {
+	return request(
+		'cardsInfo', {
+			cards: card_ids
+		}
+	)
+}
+
 export function changeDeck(card_ids: number[], deck: string): AnkiConnectRequest {
 	return request(
 		'changeDeck', {
@@ -140,3 +224,87 @@ export function storeMediaFileByPath(filename: string, path: string): AnkiConnec
 		}
 	)
 }
+
+export function modelStyling(model_name: string): AnkiConnectRequest {
+	return request(
+		'modelStyling', {
+			modelName: model_name
+		}
+	)
+}
+
+export function updateModelStyling(model_name: string, css: string): AnkiConnectRequest {
+	return request(
+		'updateModelStyling', {
+			model: {
+				name: model_name,
+				css: css
+			}
+		}
+	)
+}
+
+export function modelTemplates(model_name: string): AnkiConnectRequest {
+	return request(
+		'modelTemplates', {
+			modelName: model_name
+		}
+	)
+}
+
+export function updateModelTemplates(model_name: string, templates: Record<string, Record<string, string>>): AnkiConnectRequest {
+	return request(
+		'updateModelTemplates', {
+			model: {
+				name: model_name,
+				templates: templates
+			}
+		}
+	)
+}
+
+export function modelFieldNames(model_name: string): AnkiConnectRequest {
+	return request(
+		'modelFieldNames', {
+			modelName: model_name
+		}
+	)
+}
+
+export function modelFieldAdd(model_name: string, field_name: string): AnkiConnectRequest {
+	return request(
+		'modelFieldAdd', {
+			modelName: model_name,
+			fieldName: field_name
+		}
+	)
+}
+
+export function createModel(model_name: string, fields: string[], css: string, is_cloze: boolean, templates: Array<Record<string, string>>): AnkiConnectRequest {
+	return request(
+		'createModel', {
+			modelName: model_name,
+			inOrderFields: fields,
+			css: css,
+			isCloze: is_cloze,
+			cardTemplates: templates
+		}
+	)
+}
+
+export function modelTemplateAdd(model_name: string, template: Record<string, string>): AnkiConnectRequest {
+	return request(
+		'modelTemplateAdd', {
+			modelName: model_name,
+			template: template
+		}
+	)
+}
+
+export function createDeck(deck: string): AnkiConnectRequest {
+	return request(
+		'createDeck', {
+			deck: deck
+		}
+	)
+}
@@ -0,0 +1,63 @@
+/*Modal for resolving notes that were changed in both Obsidian and Anki.*/
+import { App, Modal, Setting } from 'obsidian'
+import { NoteConflict } from './interfaces/note-interface'
+
+export type ConflictChoice = "obsidian" | "anki" | "later"
+
+export class ConflictModal extends Modal {
+	conflicts: NoteConflict[]
+	choices: ConflictChoice[]
+	on_resolve: (conflicts: NoteConflict[], choices: ConflictChoice[]) => Promise<void>
+
+	constructor(app: App, conflicts: NoteConflict[], on_resolve: (conflicts: NoteConflict[], choices: ConflictChoice[]) => Promise<void>) {
+		super(app)
+		this.conflicts = conflicts
+		this.choices = conflicts.map((): ConflictChoice => "later")
+		this.on_resolve = on_resolve
+	}
+
+	setup_conflict(conflict: NoteConflict, index: number) {
+		let {contentEl} = this
+		let conflict_setting = new Setting(contentEl)
+			.setName("Note " + conflict.identifier.toString())
+			.setDesc(conflict.path)
+			.addDropdown(
+				dropdown => dropdown.addOption("later", "Decide later")
+				.addOption("obsidian", "Keep Obsidian version")
+				.addOption("anki", "Keep Anki version")
+				.setValue(this.choices[index])
+				.onChange((value: ConflictChoice) => {
+					this.choices[index] = value
+				})
+			)
+		for (let field in conflict.obsidian_fields) {
+			if (conflict.obsidian_fields[field] === conflict.anki_fields[field]) {
+				continue
+			}
+			conflict_setting.descEl.createEl('pre', {text: field + " in Obsidian: " + conflict.obsidian_fields[field], cls: "anki-plan-detail"})
+			conflict_setting.descEl.createEl('pre', {text: field + " in Anki: " + conflict.anki_fields[field], cls: "anki-plan-detail"})
+		}
+	}
+
+	onOpen() {
+		let {contentEl} = this
+		contentEl.createEl('h2', {text: 'Sync conflicts'})
+		contentEl.createEl('p', {text: "These notes were changed in both Obsidian and Anki since they were last synced, so neither version was synced. Choose which version to keep."})
+		this.conflicts.forEach((conflict, index) => this.setup_conflict(conflict, index))
+		new Setting(contentEl)
+			.addButton(
+				button => {
+					button.setButtonText("Resolve").setClass("mod-cta")
+					.onClick(async () => {
+						this.close()
+						await this.on_resolve(this.conflicts, this.choices)
+					})
+				}
+			)
+	}
+
+	onClose() {
+		let {contentEl} = this
+		contentEl.empty()
+	}
+}
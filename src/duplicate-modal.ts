@@ -0,0 +1,66 @@
+/*Modal for resolving note IDs found in more than one place in the vault.*/
+import { App, Modal, Setting } from 'obsidian'
+import { DuplicateID } from './interfaces/note-interface'
+
+// The index of the location to keep the ID in, or a decision for all of them
+export type DuplicateChoice = "later" | "intended" | number
+
+export class DuplicateModal extends Modal {
+	duplicates: DuplicateID[]
+	choices: DuplicateChoice[]
+	on_resolve: (duplicates: DuplicateID[], choices: DuplicateChoice[]) => Promise<void>
+
+	constructor(app: App, duplicates: DuplicateID[], on_resolve: (duplicates: DuplicateID[], choices: DuplicateChoice[]) => Promise<void>) {
+		super(app)
+		this.duplicates = duplicates
+		this.choices = duplicates.map((): DuplicateChoice => "later")
+		this.on_resolve = on_resolve
+	}
+
+	setup_duplicate(duplicate: DuplicateID, index: number) {
+		let {contentEl} = this
+		let duplicate_setting = new Setting(contentEl)
+			.setName("Note " + duplicate.identifier.toString())
+			.setDesc("Found in " + duplicate.locations.length.toString() + " places")
+			.addDropdown(
+				dropdown => {
+					dropdown.addOption("later", "Decide later")
+					duplicate.locations.forEach(
+						(location, location_index) => dropdown.addOption(
+							location_index.toString(), "Keep in " + location.path + " (line " + location.line.toString() + "), add the others as new notes"
+						)
+					)
+					dropdown.addOption("intended", "Keep all as intended duplicates")
+					.setValue(this.choices[index].toString())
+					.onChange((value: string) => {
+						this.choices[index] = value === "later" || value === "intended" ? value : parseInt(value)
+					})
+				}
+			)
+		for (let location of duplicate.locations) {
+			duplicate_setting.descEl.createEl('pre', {text: location.path + ", line " + location.line.toString(), cls: "anki-plan-detail"})
+		}
+	}
+
+	onOpen() {
+		let {contentEl} = this
+		contentEl.createEl('h2', {text: 'Duplicate note IDs'})
+		contentEl.createEl('p', {text: "These note IDs are in more than one place, for example because a note was copied along with its ID, so the notes weren't updated in Anki. Choose where to keep each ID. The ID is taken out of the other places, so those notes are added as new ones on the next scan."})
+		this.duplicates.forEach((duplicate, index) => this.setup_duplicate(duplicate, index))
+		new Setting(contentEl)
+			.addButton(
+				button => {
+					button.setButtonText("Resolve").setClass("mod-cta")
+					.onClick(async () => {
+						this.close()
+						await this.on_resolve(this.duplicates, this.choices)
+					})
+				}
+			)
+	}
+
+	onClose() {
+		let {contentEl} = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,33 @@
+/*Finding and removing the ID lines of notes, for when a note block has been copied along with its ID.*/
+
+function idRegExp(identifier: number): RegExp {
+	return new RegExp(String.raw`(?:<!--)?\bID: ` + identifier.toString() + String.raw`(?!\d)(?:-->)?[ \t]*`)
+}
+
+export function idLine(text: string, identifier: number, from: number = 0): number | null {
+	/*1-based line of the first ID line for identifier in text at or after from, or null if there isn't one.*/
+	const match = text.slice(from).match(idRegExp(identifier))
+	if (!(match)) {
+		return null
+	}
+	return text.slice(0, from + match.index).split("\n").length
+}
+
+export function stripID(text: string, line: number, identifier: number): string | null {
+	/*text without the ID for identifier on line, so the note there is added as a new one.
+
+	The line is removed if the ID is all that's on it, as for most notes, but kept for inline notes.
+	Returns null if the ID isn't on line.*/
+	let lines: string[] = text.split("\n")
+	const id_regexp: RegExp = idRegExp(identifier)
+	if (line < 1 || line > lines.length || !(id_regexp.test(lines[line - 1]))) {
+		return null
+	}
+	const stripped: string = lines[line - 1].replace(id_regexp, "")
+	if (/^[>\s]*$/.test(stripped)) {
+		lines.splice(line - 1, 1)
+	} else {
+		lines[line - 1] = stripped.replace(/[ \t]+$/, "")
+	}
+	return lines.join("\n")
+}
@@ -0,0 +1,47 @@
+/*Matching vault paths against the exclusion list in the settings.
+
+An exclusion is a folder or file path, which excludes everything inside it, or a glob pattern:
+* matches anything but /, ** matches anything including /, and ? matches one character other than /.*/
+import { escapeRegex } from './constants'
+
+const GLOB_CHARS_REGEXP: RegExp = /[*?]/
+
+function globToRegExp(glob: string): RegExp {
+	let source: string = ""
+	for (let i = 0; i < glob.length; i++) {
+		if (glob.startsWith("**/", i)) {
+			// Zero or more folders
+			source += "(?:.*/)?"
+			i += 2
+		} else if (glob.startsWith("**", i)) {
+			source += ".*"
+			i += 1
+		} else if (glob[i] === "*") {
+			source += "[^/]*"
+		} else if (glob[i] === "?") {
+			source += "[^/]"
+		} else {
+			source += escapeRegex(glob[i])
+		}
+	}
+	return new RegExp("^" + source + "(?:/.*)?$")
+}
+
+export function parseExclusions(text: string): string[] {
+	//One exclusion per line, ignoring blank lines and any slashes around paths.
+	return text.split("\n").map(line => line.trim().replace(/^\/+|\/+$/g, "")).filter(line => line)
+}
+
+export function matchingExclusion(path: string, exclusions: string[]): string | null {
+	/*The first exclusion that path is excluded by, or null if there isn't one.*/
+	for (let exclusion of exclusions) {
+		if (GLOB_CHARS_REGEXP.test(exclusion)) {
+			if (globToRegExp(exclusion).test(path)) {
+				return exclusion
+			}
+		} else if (path === exclusion || path.startsWith(exclusion + "/")) {
+			return exclusion
+		}
+	}
+	return null
+}
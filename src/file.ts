@@ -1,16 +1,23 @@
 /*Performing plugin operations on markdown file contents*/
 
 import { FROZEN_FIELDS_DICT } from './interfaces/field-interface'
-import { AnkiConnectNote, AnkiConnectNoteAndID } from './interfaces/note-interface'
+import { AnkiConnectNote, AnkiConnectNoteAndID, NoteSource } from './interfaces/note-interface'
 import { FileData } from './interfaces/settings-interface'
-import { Note, InlineNote, RegexNote, CLOZE_ERROR, NOTE_TYPE_ERROR, TAG_SEP, ID_REGEXP_STR, TAG_REGEXP_STR } from './note'
+import { NoteResult, ReportIssue } from './interfaces/report-interface'
+import { Note, InlineNote, HeadingNote, SeparatorNote, RegexNote, CLOZE_ERROR, NOTE_TYPE_ERROR, TAG_SEP, ID_REGEXP_STR, TAG_REGEXP_STR } from './note'
 import { Md5 } from 'ts-md5/dist/md5';
 import * as AnkiConnect from './anki'
 import * as c from './constants'
 import { FormatConverter } from './format'
-import { CachedMetadata, HeadingCache } from 'obsidian'
+import { mathSpans } from './math'
+import { obsidianTagToAnki, ankiTagToObsidian, mapTags } from './tags'
+import { CachedMetadata, HeadingCache, parseFrontMatterTags } from 'obsidian'
 
 const double_regexp: RegExp = /(?:\r\n|\r|\n)((?:\r\n|\r|\n)(?:<!--)?ID: \d+)/g
+const id_regexp: RegExp = /(?:<!--)?ID: (\d+)/
+const inline_tail_regexp: RegExp = /Tags: |(?:<!--)?ID: \d+/
+const heading_regexp: RegExp = /^(#{1,6})[ \t]+(.+)$/gm
+const heading_prefix_regexp: RegExp = /^#{1,6}[ \t]+/
 
 function id_to_str(identifier:number, inline:boolean = false, comment:boolean = false): string {
     let result = "ID: " + identifier.toString()
@@ -30,13 +37,20 @@ function string_insert(text: string, position_inserts: Array<[number, string]>):
 
     position_inserts will look like:
     [(0, "hi"), (3, "hello"), (5, "beep")]*/
+	return string_replace(
+		text, position_inserts.map(([position, insert_str]): [number, number, string] => [position, position, insert_str])
+	)
+}
+
+function string_replace(text: string, replacements: Array<[number, number, string]>): string {
+	/*Replace the text between each pair of indices in replacements.
+
+    The spans are indices into the original text, and must not overlap.*/
 	let offset = 0
-	let sorted_inserts: Array<[number, string]> = position_inserts.sort((a, b):number => a[0] - b[0])
-	for (let insertion of sorted_inserts) {
-		let position = insertion[0]
-		let insert_str = insertion[1]
-		text = text.slice(0, position + offset) + insert_str + text.slice(position + offset)
-		offset += insert_str.length
+	let sorted_replacements: Array<[number, number, string]> = replacements.sort((a, b):number => a[0] - b[0])
+	for (let [start, end, replace_str] of sorted_replacements) {
+		text = text.slice(0, start + offset) + replace_str + text.slice(end + offset)
+		offset += replace_str.length - (end - start)
 	}
 	return text
 }
@@ -81,6 +95,10 @@ abstract class AbstractFile {
     target_deck: string
     global_tags: string
 
+    frontmatter_deck: string
+    frontmatter_tags: string[]
+    default_note_type: string
+
     notes_to_add: AnkiConnectNote[]
     id_indexes: number[]
     notes_to_edit: AnkiConnectNoteAndID[]
@@ -91,16 +109,69 @@ abstract class AbstractFile {
     card_ids: number[]
     tags: string[]
 
+    excluded_updates: Set<number>
+    excluded_deck_changes: Set<number>
+    excluded_tag_changes: Set<number>
+    // Notes whose fields Anki refused to update, so they aren't recorded as synced
+    failed_updates: Set<number>
+    pulled_blocks: Array<[number, number, string]>
+
+    note_results: NoteResult[]
+    issues: ReportIssue[]
+
     formatter: FormatConverter
 
     constructor(file_contents: string, path:string, url: string, data: FileData, file_cache: CachedMetadata) {
-        this.data = data
+        // Copied, so that frontmatter settings only apply to this file
+        this.data = {...data}
         this.file = file_contents
         this.path = path
         this.url = url
         this.original_file = this.file
         this.file_cache = file_cache
-        this.formatter = new FormatConverter(file_cache, this.data.vault_name)
+        this.setup_frontmatter()
+        this.url = this.data.add_file_link ? url : ""
+        this.formatter = new FormatConverter(file_cache, this.data.vault_name, this.data.media_paths, this.data.media_types, this.data.transclusions)
+    }
+
+    setup_frontmatter() {
+        /*Apply per-file settings from the frontmatter.
+
+        Frontmatter settings override the plugin defaults. For the deck, the order of precedence is:
+        TARGET DECK line > frontmatter > folder deck > default deck.
+        Tags from the frontmatter are added to the folder tags and FILE TAGS line.*/
+        const frontmatter = this.file_cache && this.file_cache.frontmatter ? this.file_cache.frontmatter : {}
+        const bool_value = (key: string, fallback: boolean): boolean => {
+            if (!(frontmatter.hasOwnProperty(key))) {
+                return fallback
+            }
+            const value = frontmatter[key]
+            return typeof value === "string" ? value.trim().toLowerCase() === "true" : Boolean(value)
+        }
+        const string_value = (key: string): string => frontmatter[key] ? String(frontmatter[key]).trim() : ""
+        const tags = frontmatter[c.FRONTMATTER_KEYS["Tags"]]
+        this.frontmatter_deck = string_value(c.FRONTMATTER_KEYS["Deck"])
+        this.frontmatter_tags = (Array.isArray(tags) ? tags.map(tag => String(tag)) : tags ? String(tags).split(/[,\s]+/) : []).filter(tag => tag)
+        if (this.data.add_obs_tags) {
+            // The file's own Obsidian tags, from tags: in the frontmatter
+            this.frontmatter_tags.push(...(parseFrontMatterTags(frontmatter) || []).map(obsidianTagToAnki).filter(tag => tag))
+        }
+        this.default_note_type = string_value(c.FRONTMATTER_KEYS["Note Type"])
+        this.data.add_context = bool_value(c.FRONTMATTER_KEYS["Add Context"], this.data.add_context)
+        this.data.add_file_link = bool_value(c.FRONTMATTER_KEYS["Add File Link"], this.data.add_file_link)
+        this.data.curly_cloze = bool_value(c.FRONTMATTER_KEYS["CurlyCloze"], this.data.curly_cloze)
+        if (this.default_note_type) {
+            this.data.heading_note_type = this.default_note_type
+        }
+        // Either a heading level, or true to use the folder's level
+        const heading_cards = frontmatter[c.FRONTMATTER_KEYS["Heading Cards"]]
+        const heading_level: number = parseInt(heading_cards)
+        if (heading_level >= 1 && heading_level <= 6) {
+            this.data.heading_level = heading_level
+        } else if (frontmatter.hasOwnProperty(c.FRONTMATTER_KEYS["Heading Cards"])) {
+            const enabled: boolean = bool_value(c.FRONTMATTER_KEYS["Heading Cards"], false)
+            this.data.heading_level = enabled ? this.data.heading_level || c.DEFAULT_HEADING_LEVEL : 0
+        }
     }
 
     setup_frozen_fields_dict() {
@@ -130,16 +201,39 @@ abstract class AbstractFile {
 
     setup_target_deck() {
         const result = this.file.match(this.data.DECK_REGEXP)
-        this.target_deck = result ? result[1] : this.data.template["deckName"]
+        this.target_deck = result ? result[1] : this.frontmatter_deck || this.data.template["deckName"]
     }
 
     setup_global_tags() {
         const result = this.file.match(this.data.TAG_REGEXP)
-        this.global_tags = result ? result[1] : ""
+        this.global_tags = this.frontmatter_tags.concat(result ? [result[1]] : []).join(TAG_SEP)
+    }
+
+    withDefaultNoteType(note: string, has_note_type: boolean, inline: boolean): string {
+        //Notes without a note type get the file's default note type, if it has one.
+        if (has_note_type || !(this.default_note_type)) {
+            return note
+        }
+        return inline ? " [" + this.default_note_type + "]" + note : this.default_note_type + "\n" + note
+    }
+
+    lineAt(position: number): number {
+        //1-based line number of position in the file, for the sync report.
+        return this.original_file.slice(0, position).split("\n").length
+    }
+
+    skipNote(identifier: number | null, position: number, message: string) {
+        //Log a note that can't be synced, and keep it for the sync report.
+        console.warn(message)
+        const line: number = this.lineAt(position)
+        this.note_results.push({identifier, action: "skipped", line})
+        this.issues.push({level: "warning", path: this.path, line, message})
     }
 
     getHash(): string {
-        return Md5.hashStr(this.file) as string
+        // Transcluded text is included, so that files are scanned again when what they embed changes
+        const transcluded: string = Object.values(this.data.transclusions).map(transclusion => transclusion.text).join("\n")
+        return Md5.hashStr(transcluded ? this.file + transcluded : this.file) as string
     }
 
     abstract scanFile(): void
@@ -184,13 +278,17 @@ abstract class AbstractFile {
     abstract writeIDs(): void
 
     removeEmpties() {
-        this.file = this.file.replace(this.data.EMPTY_REGEXP, "")
+        // Only remove deletion lines for notes that are actually being deleted
+        this.file = this.file.replace(
+            this.data.EMPTY_REGEXP,
+            (match: string, identifier: string) => this.notes_to_delete.includes(parseInt(identifier)) ? "" : match
+        )
     }
 
     getAddNotes(): AnkiConnect.AnkiConnectRequest {
         let actions: AnkiConnect.AnkiConnectRequest[] = []
         for (let note of this.all_notes_to_add) {
-            actions.push(AnkiConnect.addNote(note))
+            actions.push(AnkiConnect.addNote({...note, tags: mapTags(note.tags, this.data.tag_mappings)}))
         }
         return AnkiConnect.multi(actions)
     }
@@ -202,6 +300,9 @@ abstract class AbstractFile {
     getUpdateFields(): AnkiConnect.AnkiConnectRequest {
         let actions: AnkiConnect.AnkiConnectRequest[] = []
         for (let parsed of this.notes_to_edit) {
+            if (this.excluded_updates.has(parsed.identifier)) {
+                continue
+            }
             actions.push(
                 AnkiConnect.updateNoteFields(
                     parsed.identifier, parsed.note.fields
@@ -226,6 +327,9 @@ abstract class AbstractFile {
     getClearTags(): AnkiConnect.AnkiConnectRequest {
         let IDs: number[] = []
         for (let parsed of this.notes_to_edit) {
+            if (this.excluded_tag_changes.has(parsed.identifier)) {
+                continue
+            }
             IDs.push(parsed.identifier)
         }
         return AnkiConnect.removeTags(IDs, this.tags.join(" "))
@@ -234,22 +338,81 @@ abstract class AbstractFile {
     getAddTags(): AnkiConnect.AnkiConnectRequest {
         let actions: AnkiConnect.AnkiConnectRequest[] = []
         for (let parsed of this.notes_to_edit) {
+            if (this.excluded_tag_changes.has(parsed.identifier)) {
+                continue
+            }
             actions.push(
-                AnkiConnect.addTags([parsed.identifier], parsed.note.tags.join(" ") + " " + this.global_tags)
+                AnkiConnect.addTags([parsed.identifier], this.getNewTags(parsed).join(" "))
             )
         }
         return AnkiConnect.multi(actions)
     }
 
+    pullNote(parsed: AnkiConnectNoteAndID, anki_fields: Record<string, string>, synced_fields: Record<string, string>): boolean {
+        /*Rewrite the note in the file to match its fields in Anki, returning whether it could be done.
+
+        Only the fields changed in Anki since synced_fields are converted back to markdown, since that isn't exact,
+        and the rest are left as they're written in the file. The rewrite is applied by writeIDs.
+        Notes that embed other notes can't be pulled, as the embedded text is inlined in Anki and would replace the embed.*/
+        const source = parsed.source
+        const note_text: string = this.original_file.slice(source.start, source.end)
+        if (Object.keys(this.data.transclusions).some(embed => note_text.includes(embed))) {
+            return false
+        }
+        let markdown_fields: Record<string, string> = {}
+        // Fields cleared in Anki are written empty, rather than left out and so kept in Anki on the next sync
+        let cleared_fields: string[] = []
+        for (let field in parsed.note.fields) {
+            let value: string = anki_fields.hasOwnProperty(field) ? anki_fields[field] : ""
+            if (value === synced_fields[field] && parsed.markdown_fields) {
+                markdown_fields[field] = parsed.markdown_fields[field]
+                continue
+            }
+            // Strip what gets appended to fields on sync, like the file link and context
+            const base: string = parsed.base_fields[field]
+            const suffix: string = parsed.note.fields[field].startsWith(base) ? parsed.note.fields[field].slice(base.length) : ""
+            if (suffix && value.endsWith(suffix)) {
+                value = value.slice(0, value.length - suffix.length)
+            }
+            // Tags are taken out of fields when they're synced, so they're put back at the end
+            const tags: string[] = parsed.field_tags && parsed.field_tags[field] ? parsed.field_tags[field] : []
+            markdown_fields[field] = [this.formatter.anki_to_markdown(value)].concat(tags.map(ankiTagToObsidian)).filter(part => part).join(" ")
+            if (!(markdown_fields[field])) {
+                cleared_fields.push(field)
+            }
+        }
+        const rewritten: string | null = this.rewriteNote(source, note_text, markdown_fields, cleared_fields)
+        if (rewritten === null) {
+            return false
+        }
+        this.pulled_blocks.push([source.start, source.end, rewritten])
+        return true
+    }
+
+    abstract rewriteNote(source: NoteSource, note_text: string, fields: Record<string, string>, cleared_fields: string[]): string | null
+
+    getNewTags(parsed: AnkiConnectNoteAndID): string[] {
+        //The tags a note will have in Anki once getClearTags and getAddTags have run.
+        return mapTags(parsed.note.tags.concat(this.global_tags.split(TAG_SEP)), this.data.tag_mappings)
+    }
+
 }
 
 export class AllFile extends AbstractFile {
     ignore_spans: [number, number][]
+    // The parts of ignore_spans that are notes, rather than code, math and so on
+    note_spans: [number, number][]
     custom_regexps: Record<string, string>
     inline_notes_to_add: AnkiConnectNote[]
     inline_id_indexes: number[]
     regex_notes_to_add: AnkiConnectNote[]
     regex_id_indexes: number[]
+    heading_notes_to_add: AnkiConnectNote[]
+    heading_id_indexes: number[]
+    separator_notes_to_add: AnkiConnectNote[]
+    separator_id_indexes: number[]
+    callout_notes_to_add: AnkiConnectNote[]
+    callout_id_indexes: number[]
 
     constructor(file_contents: string, path:string, url: string, data: FileData, file_cache: CachedMetadata) {
         super(file_contents, path, url, data, file_cache)
@@ -267,10 +430,14 @@ export class AllFile extends AbstractFile {
         if (tag_result) {
             this.ignore_spans.push([tag_result.index, tag_result.index + tag_result[0].length])
         }
-        this.ignore_spans.push(...spans(this.data.NOTE_REGEXP, this.file))
-        this.ignore_spans.push(...spans(this.data.INLINE_REGEXP, this.file))
-        this.ignore_spans.push(...spans(c.OBS_INLINE_MATH_REGEXP, this.file))
-        this.ignore_spans.push(...spans(c.OBS_DISPLAY_MATH_REGEXP, this.file))
+        this.note_spans = []
+        this.note_spans.push(...spans(this.data.NOTE_REGEXP, this.file))
+        if (this.data.CALLOUT_REGEXP) {
+            this.note_spans.push(...spans(this.data.CALLOUT_REGEXP, this.file))
+        }
+        this.note_spans.push(...spans(this.data.INLINE_REGEXP, this.file))
+        this.ignore_spans.push(...this.note_spans)
+        this.ignore_spans.push(...mathSpans(this.file))
         this.ignore_spans.push(...spans(c.OBS_CODE_REGEXP, this.file))
         this.ignore_spans.push(...spans(c.OBS_DISPLAY_CODE_REGEXP, this.file))
     }
@@ -283,17 +450,32 @@ export class AllFile extends AbstractFile {
         this.notes_to_add = []
         this.inline_notes_to_add = []
         this.regex_notes_to_add = []
+        this.heading_notes_to_add = []
+        this.separator_notes_to_add = []
+        this.callout_notes_to_add = []
         this.id_indexes = []
         this.inline_id_indexes = []
         this.regex_id_indexes = []
+        this.heading_id_indexes = []
+        this.separator_id_indexes = []
+        this.callout_id_indexes = []
         this.notes_to_edit = []
         this.notes_to_delete = []
+        this.excluded_updates = new Set()
+        this.excluded_deck_changes = new Set()
+        this.excluded_tag_changes = new Set()
+        this.failed_updates = new Set()
+        this.pulled_blocks = []
+        this.note_results = []
+        this.issues = []
     }
 
     scanNotes() {
         for (let note_match of this.file.matchAll(this.data.NOTE_REGEXP)) {
             let [note, position]: [string, number] = [note_match[1], note_match.index + note_match[0].indexOf(note_match[1]) + note_match[1].length]
             // That second thing essentially gets the index of the end of the first capture group.
+            const source: NoteSource = {kind: "note", start: position - note.length, end: position}
+            note = this.withDefaultNoteType(note, this.data.fields_dict.hasOwnProperty(note.trim().split("\n")[0]), false)
             let parsed = new Note(
                 note,
                 this.data.fields_dict,
@@ -318,11 +500,57 @@ export class AllFile extends AbstractFile {
                 }
                 // Need to show an error otherwise
                 else if (parsed.identifier == NOTE_TYPE_ERROR) {
-                    console.warn("Did not recognise note type ", parsed.note.modelName, " in file ", this.path)
+                    this.skipNote(null, source.start, "Did not recognise note type " + parsed.note.modelName + " in file " + this.path)
+                } else {
+                    this.skipNote(parsed.identifier, source.start, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
+                }
+            } else {
+                parsed.source = source
+                this.notes_to_edit.push(parsed)
+            }
+        }
+    }
+
+    scanCallouts() {
+        /*Find notes written as callouts of the callout type, e.g. > [!anki] Basic
+
+        The quoted lines are read like the lines of a note, and the ID goes on the last quoted line.*/
+        if (!(this.data.CALLOUT_REGEXP)) {
+            return
+        }
+        const code_spans: Array<[number, number]> = spans(c.OBS_DISPLAY_CODE_REGEXP, this.file)
+        for (let callout_match of this.file.matchAll(this.data.CALLOUT_REGEXP)) {
+            const [start, end]: [number, number] = [callout_match.index, callout_match.index + callout_match[0].length]
+            if (contained_in([start, end], code_spans)) {
+                continue
+            }
+            const body: string = callout_match[2].split("\n").map(line => line.replace(/^>[ \t]?/, "")).join("\n")
+            const note_type: string = callout_match[1].trim() || this.default_note_type
+            let parsed = new Note(
+                note_type + "\n" + body,
+                this.data.fields_dict,
+                this.data.curly_cloze,
+                this.data.highlights_to_cloze,
+                this.formatter
+            ).parse(
+                this.target_deck,
+                this.url,
+                this.frozen_fields_dict,
+                this.data,
+                this.data.add_context ? this.getContextAtIndex(start) : ""
+            )
+            if (parsed.identifier == null) {
+                parsed.note.tags.push(...this.global_tags.split(TAG_SEP))
+                this.callout_notes_to_add.push(parsed.note)
+                this.callout_id_indexes.push(end)
+            } else if (!this.data.EXISTING_IDS.includes(parsed.identifier)) {
+                if (parsed.identifier == NOTE_TYPE_ERROR) {
+                    this.skipNote(null, start, "Did not recognise note type " + parsed.note.modelName + " in file " + this.path)
                 } else {
-                    console.warn("Note with id", parsed.identifier, " in file ", this.path, " does not exist in Anki!")
+                    this.skipNote(parsed.identifier, start, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
                 }
             } else {
+                parsed.source = {kind: "callout", start, end}
                 this.notes_to_edit.push(parsed)
             }
         }
@@ -332,6 +560,8 @@ export class AllFile extends AbstractFile {
         for (let note_match of this.file.matchAll(this.data.INLINE_REGEXP)) {
             let [note, position]: [string, number] = [note_match[1], note_match.index + note_match[0].indexOf(note_match[1]) + note_match[1].length]
             // That second thing essentially gets the index of the end of the first capture group.
+            const source: NoteSource = {kind: "inline", start: position - note.length, end: position}
+            note = this.withDefaultNoteType(note, InlineNote.TYPE_REGEXP.test(note), true)
             let parsed = new InlineNote(
                 note,
                 this.data.fields_dict,
@@ -355,8 +585,9 @@ export class AllFile extends AbstractFile {
                 if (parsed.identifier == CLOZE_ERROR) {
                     continue
                 }
-                console.warn("Note with id", parsed.identifier, " in file ", this.path, " does not exist in Anki!")
+                this.skipNote(parsed.identifier, source.start, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
             } else {
+                parsed.source = source
                 this.notes_to_edit.push(parsed)
             }
         }
@@ -373,6 +604,7 @@ export class AllFile extends AbstractFile {
                 let regexp: RegExp = new RegExp(regexp_str + tag_str + id_str, 'gm')
                 for (let match of findignore(regexp, this.file, this.ignore_spans)) {
                     this.ignore_spans.push([match.index, match.index + match[0].length])
+                    this.note_spans.push([match.index, match.index + match[0].length])
                     const parsed: AnkiConnectNoteAndID = new RegexNote(
                         match, note_type, this.data.fields_dict,
                         search_tags, search_id, this.data.curly_cloze, this.data.highlights_to_cloze, this.formatter
@@ -388,16 +620,22 @@ export class AllFile extends AbstractFile {
                             if (parsed.identifier == CLOZE_ERROR) {
                                 // This means it wasn't actually a note! So we should remove it from ignore_spans
                                 this.ignore_spans.pop()
+                                this.note_spans.pop()
                                 continue
                             }
-                            console.warn("Note with id", parsed.identifier, " in file ", this.path, " does not exist in Anki!")
+                            this.skipNote(parsed.identifier, match.index, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
                         } else {
+                            // Only the field groups are left in match, since RegexNote pops off the tags and ID
+                            parsed.source = {
+                                kind: "regex", start: match.index, end: match.index + match[0].length, groups: match.slice(1)
+                            }
                             this.notes_to_edit.push(parsed)
                         }
                     } else {
                         if (parsed.identifier == CLOZE_ERROR) {
                             // This means it wasn't actually a note! So we should remove it from ignore_spans
                             this.ignore_spans.pop()
+                            this.note_spans.pop()
                             continue
                         }
                         parsed.note.tags.push(...this.global_tags.split(TAG_SEP))
@@ -409,9 +647,143 @@ export class AllFile extends AbstractFile {
         }
     }
 
+    scanSeparatorNotes() {
+        /*Find notes written with the separator syntax.
+
+        Multi-line notes are found first, so that their lines aren't taken for single-line notes.
+        Separators inside code, math or other notes don't count, and a multi-line question starts after any note before it.*/
+        const searches: Array<[RegExp | null, string, boolean]> = [
+            [this.data.MULTILINE_SEPARATOR_REGEXP, this.data.separator_note_type, true],
+            [this.data.REVERSED_SEPARATOR_REGEXP, this.data.reversed_separator_note_type, false],
+            [this.data.SEPARATOR_REGEXP, this.data.separator_note_type, false]
+        ]
+        for (let [regexp, note_type, multiline] of searches) {
+            if (!(regexp)) {
+                continue
+            }
+            for (let match of findignore(regexp, this.file, this.ignore_spans)) {
+                let [question, answer, separator_position, groups]: [string, string, number, string[]] = multiline ? [
+                    match[1], match[2], match.index + match[1].length,
+                    [match[0].slice(match[1].length, match[0].length - match[2].length)]
+                ] : [
+                    match[2], match[4] + (match[5] ? "\nID: " + match[5] : ""), match.index + match[1].length + match[2].length,
+                    [match[1], match[3]]
+                ]
+                if (this.ignore_spans.some(([start, end]) => separator_position >= start && separator_position < end)) {
+                    continue
+                }
+                let start: number = match.index
+                const boundary: number = Math.max(start, ...this.note_spans.map(span => span[1]).filter(span_end => span_end < separator_position))
+                if (multiline && boundary > start) {
+                    // Starts on the line after the end of the note before it
+                    start = this.file[boundary - 1] === "\n" ? boundary : this.file.indexOf("\n", boundary) + 1
+                    if (start >= separator_position) {
+                        continue
+                    }
+                    question = this.file.slice(start, separator_position)
+                }
+                const end: number = match.index + match[0].replace(/\n$/, "").length
+                this.ignore_spans.push([start, end])
+                this.note_spans.push([start, end])
+                let parsed = new SeparatorNote(
+                    note_type + "\n" + question.trim() + "\n" + SeparatorNote.SEPARATOR_LINE + "\n" + answer.trim(),
+                    this.data.fields_dict,
+                    this.data.curly_cloze,
+                    this.data.highlights_to_cloze,
+                    this.formatter
+                ).parse(
+                    this.target_deck,
+                    this.url,
+                    this.frozen_fields_dict,
+                    this.data,
+                    this.data.add_context ? this.getContextAtIndex(start) : ""
+                )
+                if (parsed.identifier == null) {
+                    parsed.note.tags.push(...this.global_tags.split(TAG_SEP))
+                    this.separator_notes_to_add.push(parsed.note)
+                    this.separator_id_indexes.push(end)
+                } else if (!this.data.EXISTING_IDS.includes(parsed.identifier)) {
+                    if (parsed.identifier == NOTE_TYPE_ERROR) {
+                        this.skipNote(null, start, "Did not recognise note type " + parsed.note.modelName + " in file " + this.path)
+                    } else {
+                        this.skipNote(parsed.identifier, start, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
+                    }
+                } else {
+                    parsed.source = {kind: multiline ? "multiline" : "separator", start, end, groups}
+                    this.notes_to_edit.push(parsed)
+                }
+            }
+        }
+    }
+
+    withoutNotes(start: number, end: number): string {
+        //The text between start and end, with the other notes in it taken out.
+        let result: string = ""
+        let cursor: number = start
+        const within: [number, number][] = this.note_spans.filter(([span_start, span_end]) => span_start < end && span_end > start).sort((a, b) => a[0] - b[0])
+        for (let [span_start, span_end] of within) {
+            result += this.file.slice(cursor, Math.max(cursor, span_start))
+            cursor = Math.max(cursor, span_end)
+        }
+        return result + this.file.slice(Math.min(cursor, end), end)
+    }
+
+    scanHeadings() {
+        /*Make a note from each heading at the heading level, if turned on for the file.
+
+        The section runs up to the next heading of the same or a higher level, and the ID goes on the line after the heading.
+        Other notes in the section are left out of it, so they aren't repeated on the card, and headings inside other notes and code are skipped.*/
+        if (!(this.data.heading_level)) {
+            return
+        }
+        const headings: RegExpMatchArray[] = Array.from(findignore(heading_regexp, this.file, this.ignore_spans))
+        headings.forEach((match, index) => {
+            const level: number = match[1].length
+            if (level != this.data.heading_level) {
+                return
+            }
+            const next = headings.slice(index + 1).find(other => other[1].length <= level)
+            const [start, end]: [number, number] = [match.index, next ? next.index : this.file.length]
+            const line_end: number = match.index + match[0].length
+            const section: string = this.withoutNotes(line_end, end)
+            if (!(section.replace(id_regexp, "").trim())) {
+                return
+            }
+            let parsed = new HeadingNote(
+                this.data.heading_note_type + "\n" + match[2].trim() + section,
+                this.data.fields_dict,
+                this.data.curly_cloze,
+                this.data.highlights_to_cloze,
+                this.formatter
+            ).parse(
+                this.target_deck,
+                this.url,
+                this.frozen_fields_dict,
+                this.data,
+                this.data.add_context ? this.getContextAtIndex(match.index) : ""
+            )
+            if (parsed.identifier == null) {
+                parsed.note.tags.push(...this.global_tags.split(TAG_SEP))
+                this.heading_notes_to_add.push(parsed.note)
+                // Sections are never empty, so there's always a line after the heading
+                this.heading_id_indexes.push(line_end + 1)
+            } else if (!this.data.EXISTING_IDS.includes(parsed.identifier)) {
+                if (parsed.identifier == NOTE_TYPE_ERROR) {
+                    this.skipNote(null, start, "Did not recognise note type " + parsed.note.modelName + " in file " + this.path)
+                } else {
+                    this.skipNote(parsed.identifier, start, "Note with id " + parsed.identifier + " in file " + this.path + " does not exist in Anki!")
+                }
+            } else {
+                parsed.source = {kind: "heading", start, end}
+                this.notes_to_edit.push(parsed)
+            }
+        })
+    }
+
     scanFile() {
         this.setupScan()
         this.scanNotes()
+        this.scanCallouts()
         this.scanInlineNotes()
         for (let note_type in this.custom_regexps) {
             const regexp_str: string = this.custom_regexps[note_type]
@@ -419,10 +791,44 @@ export class AllFile extends AbstractFile {
                 this.search(note_type, regexp_str)
             }
         }
-        this.all_notes_to_add = this.notes_to_add.concat(this.inline_notes_to_add).concat(this.regex_notes_to_add)
+        this.scanSeparatorNotes()
+        this.scanHeadings()
+        this.all_notes_to_add = this.notes_to_add.concat(this.inline_notes_to_add).concat(this.regex_notes_to_add).concat(this.heading_notes_to_add).concat(this.separator_notes_to_add).concat(this.callout_notes_to_add)
         this.scanDeletions()
     }
 
+    getAddPositions(): number[] {
+        //Where the IDs of all_notes_to_add will be written.
+        return this.id_indexes.concat(this.inline_id_indexes).concat(this.regex_id_indexes).concat(this.heading_id_indexes).concat(this.separator_id_indexes).concat(this.callout_id_indexes)
+    }
+
+    filterNotesToAdd(keep: Set<number>) {
+        /*Only keep the notes whose index in all_notes_to_add is in keep.
+
+        The ID positions are filtered alongside, so writeIDs still lines up.*/
+        const filter_by_offset = <T>(items: T[], offset: number): T[] => items.filter(
+            (_item: T, index: number) => keep.has(index + offset)
+        )
+        const inline_offset: number = this.notes_to_add.length
+        const regex_offset: number = inline_offset + this.inline_notes_to_add.length
+        const heading_offset: number = regex_offset + this.regex_notes_to_add.length
+        const separator_offset: number = heading_offset + this.heading_notes_to_add.length
+        const callout_offset: number = separator_offset + this.separator_notes_to_add.length
+        this.notes_to_add = filter_by_offset(this.notes_to_add, 0)
+        this.id_indexes = filter_by_offset(this.id_indexes, 0)
+        this.inline_notes_to_add = filter_by_offset(this.inline_notes_to_add, inline_offset)
+        this.inline_id_indexes = filter_by_offset(this.inline_id_indexes, inline_offset)
+        this.regex_notes_to_add = filter_by_offset(this.regex_notes_to_add, regex_offset)
+        this.regex_id_indexes = filter_by_offset(this.regex_id_indexes, regex_offset)
+        this.heading_notes_to_add = filter_by_offset(this.heading_notes_to_add, heading_offset)
+        this.heading_id_indexes = filter_by_offset(this.heading_id_indexes, heading_offset)
+        this.separator_notes_to_add = filter_by_offset(this.separator_notes_to_add, separator_offset)
+        this.separator_id_indexes = filter_by_offset(this.separator_id_indexes, separator_offset)
+        this.callout_notes_to_add = filter_by_offset(this.callout_notes_to_add, callout_offset)
+        this.callout_id_indexes = filter_by_offset(this.callout_id_indexes, callout_offset)
+        this.all_notes_to_add = this.notes_to_add.concat(this.inline_notes_to_add).concat(this.regex_notes_to_add).concat(this.heading_notes_to_add).concat(this.separator_notes_to_add).concat(this.callout_notes_to_add)
+    }
+
     fix_newline_ids() {
         this.file = this.file.replace(double_regexp, "$1")
     }
@@ -455,7 +861,147 @@ export class AllFile extends AbstractFile {
                 }
             }
         )
-        this.file = string_insert(this.file, normal_inserts.concat(inline_inserts).concat(regex_inserts))
+        let heading_inserts: [number, string][] = []
+        const heading_offset: number = this.notes_to_add.length + this.inline_notes_to_add.length + this.regex_notes_to_add.length
+        this.heading_id_indexes.forEach(
+            (id_position: number, index: number) => {
+                const identifier: number | null = this.note_ids[index + heading_offset] // Since headings come after regex
+                if (identifier) {
+                    heading_inserts.push([id_position, id_to_str(identifier, false, this.data.comment)])
+                }
+            }
+        )
+        let separator_inserts: [number, string][] = []
+        const separator_offset: number = heading_offset + this.heading_notes_to_add.length
+        this.separator_id_indexes.forEach(
+            (id_position: number, index: number) => {
+                const identifier: number | null = this.note_ids[index + separator_offset] // Since separator notes come after headings
+                if (identifier) {
+                    // On its own line after the note, without adding a blank line
+                    separator_inserts.push([id_position, "\n" + id_to_str(identifier, false, this.data.comment).replace(/\n$/, "")])
+                }
+            }
+        )
+        let callout_inserts: [number, string][] = []
+        const callout_offset: number = separator_offset + this.separator_notes_to_add.length
+        this.callout_id_indexes.forEach(
+            (id_position: number, index: number) => {
+                const identifier: number | null = this.note_ids[index + callout_offset] // Since callouts come last
+                if (identifier) {
+                    // Quoted, so it stays inside the callout
+                    const prefix: string = this.file.charAt(id_position - 1) === "\n" ? "" : "\n"
+                    callout_inserts.push([id_position, prefix + "> " + id_to_str(identifier, false, this.data.comment)])
+                }
+            }
+        )
+        let replacements: Array<[number, number, string]> = normal_inserts.concat(inline_inserts).concat(regex_inserts).concat(heading_inserts).concat(separator_inserts).concat(callout_inserts).map(
+            ([position, insert_str]): [number, number, string] => [position, position, insert_str]
+        )
+        this.file = string_replace(this.file, replacements.concat(this.pulled_blocks))
         this.fix_newline_ids()
     }
+
+    rewriteNote(source: NoteSource, note_text: string, fields: Record<string, string>, cleared_fields: string[]): string | null {
+        const field_strs: string[] = Object.keys(fields).filter(field => fields[field] || cleared_fields.includes(field)).map(
+            field => fields[field] ? field + ": " + fields[field] : field + ":"
+        )
+        switch (source.kind) {
+            case "note": {
+                // Keep the note type line, and any tags and ID lines at the end
+                let lines: string[] = note_text.split("\n").slice(0, -1)
+                let trailer: string[] = []
+                if (lines.length > 1 && id_regexp.test(lines[lines.length - 1])) {
+                    trailer.unshift(lines.pop())
+                }
+                if (lines.length > 1 && lines[lines.length - 1].startsWith("Tags: ")) {
+                    trailer.unshift(lines.pop())
+                }
+                // The note type line is left out for notes using the file's default note type
+                const type_lines: string[] = this.data.fields_dict.hasOwnProperty(lines[0]) ? [lines[0]] : []
+                return type_lines.concat(field_strs).concat(trailer).join("\n") + "\n"
+            }
+            case "inline": {
+                if (field_strs.some(field_str => field_str.includes("\n"))) {
+                    // Can't be written on a single line
+                    return null
+                }
+                const type_match = note_text.match(InlineNote.TYPE_REGEXP)
+                const head: string = type_match ? note_text.slice(0, type_match.index + type_match[0].length) : ""
+                const tail_match = note_text.slice(head.length).match(inline_tail_regexp)
+                const tail: string = tail_match ? note_text.slice(head.length + tail_match.index) : ""
+                return head + " " + field_strs.join(" ") + " " + tail
+            }
+            case "regex": {
+                // Replace each capture group in place, leaving the rest of the match as it was
+                const field_names: string[] = Object.keys(fields)
+                let result: string = ""
+                let cursor: number = 0
+                for (let index in source.groups) {
+                    const group: string | undefined = source.groups[index]
+                    const field: string = field_names[parseInt(index)]
+                    if (!(group) || !(fields.hasOwnProperty(field))) {
+                        continue
+                    }
+                    const group_index: number = note_text.indexOf(group, cursor)
+                    if (group_index == -1) {
+                        return null
+                    }
+                    result += note_text.slice(cursor, group_index) + fields[field]
+                    cursor = group_index + group.length
+                }
+                return result + note_text.slice(cursor)
+            }
+            case "callout": {
+                // Keep the callout line, and any tags and ID lines at the end, quoting each line of the fields
+                let lines: string[] = note_text.replace(/\n$/, "").split("\n")
+                let trailer: string[] = []
+                if (lines.length > 1 && id_regexp.test(lines[lines.length - 1])) {
+                    trailer.unshift(lines.pop())
+                }
+                if (lines.length > 1 && /^>[ \t]?Tags: /.test(lines[lines.length - 1])) {
+                    trailer.unshift(lines.pop())
+                }
+                const quoted: string[] = field_strs.join("\n").split("\n").map(line => "> " + line)
+                return [lines[0]].concat(quoted).concat(trailer).join("\n") + (note_text.endsWith("\n") ? "\n" : "")
+            }
+            case "separator": {
+                // groups are the list marker and the separator with its spacing
+                const [question_field, answer_field] = Object.keys(fields)
+                if (!(answer_field) || [question_field, answer_field].some(field => fields[field].includes("\n"))) {
+                    return null
+                }
+                const id_lines: string[] = note_text.split("\n").slice(1)
+                return [source.groups[0] + fields[question_field] + source.groups[1] + fields[answer_field]].concat(id_lines).join("\n")
+            }
+            case "multiline": {
+                // groups is the separator line, between the question and the answer
+                const [question_field, answer_field] = Object.keys(fields)
+                if (!(answer_field)) {
+                    return null
+                }
+                let lines: string[] = note_text.split("\n")
+                let trailer: string[] = []
+                if (lines.length > 1 && id_regexp.test(lines[lines.length - 1])) {
+                    trailer.unshift(lines.pop())
+                }
+                if (lines.length > 1 && lines[lines.length - 1].startsWith("Tags: ")) {
+                    trailer.unshift(lines.pop())
+                }
+                return fields[question_field] + "\n" + source.groups[0] + [fields[answer_field]].concat(trailer).join("\n")
+            }
+            case "heading": {
+                // Keep the heading markers, the ID line and the spacing before the next heading
+                const [heading_field, body_field] = Object.keys(fields)
+                // Rewriting the section would overwrite the other notes in it
+                const has_notes: boolean = this.note_spans.some(([span_start, span_end]) => span_start < source.end && span_end > source.start)
+                if (fields[heading_field].includes("\n") || !(body_field) || has_notes) {
+                    return null
+                }
+                const lines: string[] = note_text.split("\n")
+                const id_lines: string[] = lines.length > 1 && id_regexp.test(lines[1]) ? [lines[1]] : []
+                const trailing: string = note_text.match(/\s*$/)[0]
+                return [lines[0].match(heading_prefix_regexp)[0] + fields[heading_field]].concat(id_lines).concat([fields[body_field]]).join("\n") + trailing
+            }
+        }
+    }
 }
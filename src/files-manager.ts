@@ -1,9 +1,22 @@
 /*Class for managing a list of files, and their Anki requests.*/
 import { ParsedSettings, FileData } from './interfaces/settings-interface'
+import { ChangePlan, PlanItem } from './interfaces/plan-interface'
+import { NoteState, NoteConflict, NoteLocation, DuplicateID } from './interfaces/note-interface'
+import { FileStat } from './interfaces/file-interface'
+import { JournalEntry } from './interfaces/journal-interface'
+import { SyncReport, NoteAction } from './interfaces/report-interface'
 import { App, TFile, TFolder, TAbstractFile, CachedMetadata, FileSystemAdapter, Notice } from 'obsidian'
 import { AllFile } from './file'
+import { ankiMediaName } from './format'
+import { Transcluder } from './transclude'
+import { hasHighlightedCode, hasCodeTheme, withCodeTheme } from './code-themes'
+import { hasMath, hasMathPreamble, withMathPreamble } from './math'
+import { matchingExclusion } from './exclude'
+import { journalEntries, findJournalNotes, sameNote } from './journal'
+import { idLine } from './duplicates'
+import * as c from './constants'
+import { Md5 } from 'ts-md5/dist/md5'
 import * as AnkiConnect from './anki'
-import { basename } from 'path'
 
 interface addNoteResponse {
     result: number,
@@ -24,6 +37,15 @@ interface notesInfoResponse {
     error: string | null
 }
 
+interface cardsInfoResponse {
+    result: Array<{
+        cardId: number,
+        deckName: string,
+        note: number
+    }>,
+    error: string | null
+}
+
 interface Requests1Result {
     0: {
         error: string | null,
@@ -42,12 +64,65 @@ interface Requests1Result {
 
 }
 
-function difference<T>(setA: Set<T>, setB: Set<T>): Set<T> {
-    let _difference = new Set(setA)
-    for (let elem of setB) {
-        _difference.delete(elem)
+function fieldValues(note_info: notesInfoResponse["result"][0]): Record<string, string> {
+    let result: Record<string, string> = {}
+    for (let field in note_info.fields) {
+        result[field] = note_info.fields[field].value
+    }
+    return result
+}
+
+async function notesInfo(identifiers: number[]): Promise<notesInfoResponse["result"]> {
+    //Info on the notes with identifiers, asked for a batch at a time to keep each request to Anki small.
+    let result: notesInfoResponse["result"] = []
+    for (let start = 0; start < identifiers.length; start += NOTES_INFO_BATCH_SIZE) {
+        const batch: number[] = identifiers.slice(start, start + NOTES_INFO_BATCH_SIZE)
+        result.push(...await AnkiConnect.invoke('notesInfo', {notes: batch}) as notesInfoResponse["result"])
+    }
+    return result
+}
+
+function fieldsDiffer(fieldsA: Record<string, string>, fieldsB: Record<string, string>): boolean {
+    const keys = new Set(Object.keys(fieldsA).concat(Object.keys(fieldsB)))
+    return Array.from(keys).some(key => fieldsA[key] !== fieldsB[key])
+}
+
+export const DEFAULT_FOLDER_HIERARCHY: ParsedSettings["folder_hierarchy"] = {
+    "Mirror Folders": false,
+    "Root Deck": "",
+    "Skipped Folders": "",
+    "Strip Number Prefixes": false,
+    "Underscores to Spaces": false
+}
+
+// How many changed files are synced in each round of requests, to keep each request to Anki small
+const SYNC_BATCH_SIZE: number = 50
+
+// How many notes are looked up in each request, when checking notes outside the files being synced
+const NOTES_INFO_BATCH_SIZE: number = 500
+
+// Like "01 - Introduction" or "2. Algebra"
+const NUMBER_PREFIX_REGEXP: RegExp = /^\d+[\s.)_-]*/
+
+export function emptyReport(): SyncReport {
+    return {
+        started: new Date().toISOString(),
+        finished: null,
+        result: "incomplete",
+        added: 0,
+        updated: 0,
+        deleted: 0,
+        skipped: 0,
+        failed: 0,
+        files_scanned: 0,
+        files_skipped: 0,
+        files_excluded: [],
+        recovered: [],
+        files: [],
+        issues: [],
+        media_uploaded: [],
+        media_missing: []
     }
-    return _difference
 }
 
 
@@ -55,18 +130,69 @@ export class FileManager {
     app: App
     data: ParsedSettings
     files: TFile[]
+    // Whether this scan is of every file in the vault, rather than a file or folder
+    whole_vault: boolean
     ownFiles: Array<AllFile>
     file_hashes: Record<string, string>
+    file_stats: Record<string, FileStat>
+    dirty_paths: Set<string>
+    read_all: boolean
+    backfill_states: boolean
+    backfill_paths: Record<number, string>
+    read_stats: Record<string, FileStat>
+    unchanged_paths: Set<string>
+    started: number
     requests_1_result: any
-    added_media_set: Set<string>
+    added_media: Record<string, string>
+    media_hash_cache: Record<string, string>
+    transcluder: Transcluder
+    partial_files: Set<string>
+    note_states: Record<number, NoteState>
+    // The code theme and a hash of the math preamble as last put in note types, to tell when they've changed
+    applied_styles: Record<string, string>
+    forced_paths: Record<string, string>
+    pulled_states: Record<number, NoteState>
+    conflicts: NoteConflict[]
+    duplicates: DuplicateID[]
+    report: SyncReport
+    cancelled: boolean
+    batch_error: Error | null
+    onProgress: (done: number, total: number) => void
+    journal: JournalEntry[]
+    saveJournal: () => Promise<void>
 
-    constructor(app: App, data:ParsedSettings, files: TFile[], file_hashes: Record<string, string>, added_media: string[]) {
+    constructor(app: App, data:ParsedSettings, files: TFile[], file_hashes: Record<string, string>, added_media: Record<string, string>, note_states: Record<number, NoteState>, file_stats: Record<string, FileStat>, dirty_paths: string[]) {
         this.app = app
         this.data = data
         this.files = files
+        this.whole_vault = files.length == app.vault.getMarkdownFiles().length
         this.ownFiles = []
         this.file_hashes = file_hashes
-        this.added_media_set = new Set(added_media)
+        this.file_stats = file_stats
+        this.dirty_paths = new Set(dirty_paths)
+        this.read_all = false
+        this.backfill_states = false
+        this.backfill_paths = {}
+        this.read_stats = {}
+        this.unchanged_paths = new Set()
+        // Changes to files after this are left for the next scan
+        this.started = Date.now()
+        this.added_media = added_media
+        this.media_hash_cache = {}
+        this.transcluder = new Transcluder(app)
+        this.partial_files = new Set()
+        this.note_states = note_states
+        this.applied_styles = {}
+        this.forced_paths = {}
+        this.pulled_states = {}
+        this.conflicts = []
+        this.duplicates = []
+        this.report = emptyReport()
+        this.cancelled = false
+        this.batch_error = null
+        this.onProgress = () => {}
+        this.journal = []
+        this.saveJournal = async () => {}
     }
 
     getUrl(file: TFile): string {
@@ -84,13 +210,45 @@ export class FileManager {
         return result
     }
 
+    folderDeckName(folder: TFolder): string {
+        //The name of the subdeck for folder, when mirroring folders as decks.
+        const hierarchy = this.data.folder_hierarchy
+        let name: string = folder.name
+        if (hierarchy["Strip Number Prefixes"]) {
+            name = name.replace(NUMBER_PREFIX_REGEXP, "") || name
+        }
+        if (hierarchy["Underscores to Spaces"]) {
+            name = name.replace(/_/g, " ")
+        }
+        return name.trim()
+    }
+
+    isSkippedFolder(folder: TFolder): boolean {
+        const skipped: string[] = this.data.folder_hierarchy["Skipped Folders"].split(",").map(name => name.trim()).filter(name => name)
+        return skipped.includes(folder.name) || skipped.includes(folder.path)
+    }
+
     getDefaultDeck(file: TFile, folder_path_list: TFolder[]): string {
+        /*The deck for file from its folders.
+
+        When mirroring folders, each folder is a subdeck of its parent, under the root deck.
+        A folder deck in the folder table overrides the decks of the folders above it.*/
         let folder_decks = this.data.folder_decks
+        const mirror: boolean = this.data.folder_hierarchy["Mirror Folders"]
+        let subdecks: string[] = []
         for (let folder of folder_path_list) {
             // Loops over them from innermost folder
             if (folder_decks[folder.path]) {
-                return folder_decks[folder.path]
+                return [folder_decks[folder.path]].concat(subdecks).join("::")
             }
+            if (mirror && !(this.isSkippedFolder(folder))) {
+                subdecks.unshift(this.folderDeckName(folder))
+            }
+        }
+        // Files in the vault root, or only in skipped folders, go straight in the root deck
+        const root: string = mirror ? this.data.folder_hierarchy["Root Deck"].trim() : ""
+        if (subdecks.length || root) {
+            return (root ? [root] : []).concat(subdecks).join("::")
         }
         // If no decks specified
         return this.data.template.deckName
@@ -109,6 +267,17 @@ export class FileManager {
         return tags_list
     }
 
+    getHeadingLevel(file: TFile, folder_path_list: TFolder[]): number {
+        let folder_headings = this.data.folder_headings
+        for (let folder of folder_path_list) {
+            // Loops over them from innermost folder
+            if (folder_headings[folder.path]) {
+                return folder_headings[folder.path]
+            }
+        }
+        return 0
+    }
+
     dataToFileData(file: TFile): FileData {
         const folder_path_list: TFolder[] = this.getFolderPathList(file)
         let result: FileData = JSON.parse(JSON.stringify(this.data))
@@ -119,25 +288,150 @@ export class FileManager {
         result.NOTE_REGEXP = this.data.NOTE_REGEXP
         result.INLINE_REGEXP = this.data.INLINE_REGEXP
         result.EMPTY_REGEXP = this.data.EMPTY_REGEXP
+        result.SEPARATOR_REGEXP = this.data.SEPARATOR_REGEXP
+        result.REVERSED_SEPARATOR_REGEXP = this.data.REVERSED_SEPARATOR_REGEXP
+        result.MULTILINE_SEPARATOR_REGEXP = this.data.MULTILINE_SEPARATOR_REGEXP
+        result.CALLOUT_REGEXP = this.data.CALLOUT_REGEXP
         result.template.deckName = this.getDefaultDeck(file, folder_path_list)
         result.template.tags = this.getDefaultTags(file, folder_path_list)
+        result.heading_level = this.getHeadingLevel(file, folder_path_list)
         return result
     }
 
+    getExclusion(file: TFile): string | null {
+        /*Why file is excluded from scanning, or null if it isn't.
+
+        Only the metadata cache is used, so excluded files are never read.*/
+        const exclusion: string | null = matchingExclusion(file.path, this.data.excluded_paths)
+        if (exclusion !== null) {
+            return "it matches the exclusion " + exclusion
+        }
+        const cache: CachedMetadata = this.app.metadataCache.getFileCache(file)
+        const flag = cache && cache.frontmatter ? cache.frontmatter[c.FRONTMATTER_KEYS["Exclude"]] : undefined
+        if (typeof flag === "string" ? flag.trim().toLowerCase() === "true" : Boolean(flag)) {
+            return "it's excluded in its frontmatter"
+        }
+        return null
+    }
+
+    excludeFiles() {
+        /*Leave out excluded files, before any are read.
+
+        Their notes aren't deleted or flagged as orphaned, as findOrphans only looks at scanned files.*/
+        let included: TFile[] = []
+        for (let file of this.files) {
+            const reason: string | null = this.getExclusion(file)
+            if (reason === null) {
+                included.push(file)
+                continue
+            }
+            console.info("Skipping ", file.path, " as ", reason)
+            this.report.files_excluded.push(file.path)
+        }
+        this.files = included
+    }
+
+    getStat(file: TFile): FileStat {
+        /*The size and modification time of file, combined with those of the notes it embeds, so that a change to any of them shows.*/
+        let stat: FileStat = {mtime: file.stat.mtime, size: file.stat.size}
+        for (let embedded of this.transcluder.embeddedNotes(file)) {
+            stat.mtime = Math.max(stat.mtime, embedded.stat.mtime)
+            stat.size += embedded.stat.size
+        }
+        return stat
+    }
+
+    mayHaveChanged(file: TFile, stat: FileStat): boolean {
+        /*Whether file needs reading and hashing to tell if it's changed since the last scan.
+
+        Unless every file is read, that's only if it's new, forced, changed according to vault events, or its stat is different.*/
+        if (this.read_all || this.forced_paths.hasOwnProperty(file.path) || this.dirty_paths.has(file.path)) {
+            return true
+        }
+        if (!(this.file_hashes.hasOwnProperty(file.path)) || !(this.file_stats.hasOwnProperty(file.path))) {
+            return true
+        }
+        const last_stat: FileStat = this.file_stats[file.path]
+        return last_stat.mtime !== stat.mtime || last_stat.size !== stat.size
+    }
+
     async genAllFiles() {
+        this.excludeFiles()
+        let read_files: TFile[] = []
         for (let file of this.files) {
-            const content: string = await this.app.vault.read(file)
-            const cache: CachedMetadata = this.app.metadataCache.getCache(file.path)
-            const file_data = this.dataToFileData(file)
-            this.ownFiles.push(
-                new AllFile(
-                    content,
-                    file.path,
-                    this.data.add_file_link ? this.getUrl(file) : "",
-                    file_data,
-                    cache
-                )
-            )
+            const stat: FileStat = this.getStat(file)
+            if (!(this.mayHaveChanged(file, stat))) {
+                this.report.files_skipped += 1
+                continue
+            }
+            read_files.push(file)
+            this.read_stats[file.path] = stat
+            this.ownFiles.push(await this.readFile(file))
+        }
+        this.files = read_files
+    }
+
+    async readFile(file: TFile): Promise<AllFile> {
+        const content: string = await this.app.vault.read(file)
+        const cache: CachedMetadata = this.app.metadataCache.getCache(file.path)
+        const file_data = this.dataToFileData(file)
+        file_data.media_paths = this.getMediaPaths(file, cache)
+        file_data.transclusions = await this.transcluder.getTransclusions(file, cache)
+        for (let transclusion of Object.values(file_data.transclusions)) {
+            for (let embed of transclusion.embeds) {
+                file_data.media_paths[embed.link] = embed.link
+            }
+        }
+        return new AllFile(
+            content,
+            file.path,
+            this.getUrl(file),
+            file_data,
+            cache
+        )
+    }
+
+    getMediaPaths(file: TFile, cache: CachedMetadata): Record<string, string> {
+        /*Vault paths of the media embedded in file, by link.*/
+        let result: Record<string, string> = {}
+        if (!(cache) || !(cache.embeds)) {
+            return result
+        }
+        for (let embed of cache.embeds) {
+            const dataFile = this.app.metadataCache.getFirstLinkpathDest(embed.link, file.path)
+            if (dataFile) {
+                result[embed.link] = dataFile.path
+            }
+        }
+        return result
+    }
+
+    async getMediaHash(dataFile: TFile): Promise<string> {
+        if (!(this.media_hash_cache.hasOwnProperty(dataFile.path))) {
+            const contents: ArrayBuffer = await this.app.vault.readBinary(dataFile)
+            this.media_hash_cache[dataFile.path] = new Md5().appendByteArray(new Uint8Array(contents)).end() as string
+        }
+        return this.media_hash_cache[dataFile.path]
+    }
+
+    async getMediaToAdd(file: AllFile): Promise<Array<[string, TFile | null]>> {
+        /*Media detected in file that is missing from the vault, or is new or changed since it was last added to Anki.*/
+        let result: Array<[string, TFile | null]> = []
+        for (let mediaLink of file.formatter.detectedMedia) {
+            const dataFile = this.app.metadataCache.getFirstLinkpathDest(mediaLink, file.path)
+            if (!(dataFile)) {
+                result.push([mediaLink, null])
+            } else if (this.added_media[dataFile.path] !== await this.getMediaHash(dataFile)) {
+                result.push([mediaLink, dataFile])
+            }
+        }
+        return result
+    }
+
+    forceScan(paths: string[], reason: string) {
+        /*Scan the files at paths even if they haven't changed since the last scan.*/
+        for (let path of paths) {
+            this.forced_paths[path] = reason
         }
     }
 
@@ -148,21 +442,237 @@ export class FileManager {
         for (let index in this.ownFiles) {
             const i = parseInt(index)
             let file = this.ownFiles[i]
-            if (!(this.file_hashes.hasOwnProperty(file.path) && file.getHash() === this.file_hashes[file.path])) {
+            if (this.forced_paths.hasOwnProperty(file.path)) {
+                console.info("Scanning ", file.path, "as ", this.forced_paths[file.path])
+                file.scanFile()
+                files_changed.push(file)
+                obfiles_changed.push(this.files[i])
+            } else if (!(this.file_hashes.hasOwnProperty(file.path) && file.getHash() === this.file_hashes[file.path])) {
                 //Indicates it's changed or new
                 console.info("Scanning ", file.path, "as it's changed or new.")
                 file.scanFile()
                 files_changed.push(file)
                 obfiles_changed.push(this.files[i])
+            } else {
+                this.report.files_skipped += 1
+                this.unchanged_paths.add(file.path)
+                if (this.backfill_states) {
+                    this.registerNotes(file)
+                }
             }
         }
+        this.report.files_scanned = files_changed.length
         this.ownFiles = files_changed
         this.files = obfiles_changed
+        await this.backfillNoteStates()
+    }
+
+    registerNotes(file: AllFile) {
+        //Note down the notes in an unchanged file that the plugin isn't keeping track of, for backfillNoteStates.
+        file.scanFile()
+        for (let parsed of file.notes_to_edit) {
+            if (!(this.note_states.hasOwnProperty(parsed.identifier))) {
+                this.backfill_paths[parsed.identifier] = file.path
+            }
+        }
+    }
+
+    async backfillNoteStates() {
+        /*Record the notes found by registerNotes as synced, for notes synced before the plugin kept track of them.
+
+        Their fields are taken from Anki, rather than formatted from the file,
+        as formatting may have changed since they were synced, and they'd then look edited in Anki.*/
+        const identifiers: number[] = Object.keys(this.backfill_paths).map(key => parseInt(key))
+        if (!(identifiers.length)) {
+            return
+        }
+        console.info("Requesting fields of ", identifiers.length, " note(s) synced before note states were kept...")
+        for (let note_info of await notesInfo(identifiers)) {
+            // Notes deleted from Anki come back empty
+            if (note_info.noteId) {
+                this.note_states[note_info.noteId] = {path: this.backfill_paths[note_info.noteId], fields: fieldValues(note_info)}
+            }
+        }
+    }
+
+    getNoteTypesWith(test: (field: string) => boolean): string[] {
+        //Note types of the notes in this scan with a field that passes test.
+        let note_types: Set<string> = new Set()
+        for (let file of this.ownFiles) {
+            for (let note of file.all_notes_to_add.concat(file.notes_to_edit.map(parsed => parsed.note))) {
+                if (Object.values(note.fields).some(test)) {
+                    note_types.add(note.modelName)
+                }
+            }
+        }
+        return Array.from(note_types)
+    }
+
+    async updateCodeStyling() {
+        /*Put the code theme in the styling of note types with highlighted code in this scan.
+
+        If the theme has changed since it was last put in, it's changed in every other note type that has it too.*/
+        const scanned_names: string[] = this.getNoteTypesWith(hasHighlightedCode)
+        const restyle_all: boolean = this.applied_styles["Code Theme"] !== this.data.code_theme
+        const model_names: string[] = restyle_all ? Array.from(new Set(scanned_names.concat(Object.keys(this.data.fields_dict)))) : scanned_names
+        if (!(model_names.length)) {
+            this.applied_styles["Code Theme"] = this.data.code_theme
+            return
+        }
+        console.info("Requesting styling of note types with code...")
+        const stylings = await AnkiConnect.invoke(
+            'multi', {actions: model_names.map(model_name => AnkiConnect.modelStyling(model_name))}
+        ) as Array<{result: {css: string}, error: string | null}>
+        let temp: AnkiConnect.AnkiConnectRequest[] = []
+        for (let i in model_names) {
+            let styling: string
+            try {
+                styling = AnkiConnect.parse(stylings[i]).css
+            } catch (e) {
+                // The note type doesn't exist, which shows up when its notes are added
+                console.warn("Couldn't get the styling of ", model_names[i], ": ", e.message)
+                continue
+            }
+            if (!(scanned_names.includes(model_names[i]) || hasCodeTheme(styling))) {
+                continue
+            }
+            const themed: string = withCodeTheme(styling, this.data.code_theme)
+            if (themed !== styling) {
+                temp.push(AnkiConnect.updateModelStyling(model_names[i], themed))
+            }
+        }
+        if (temp.length) {
+            console.info("Requesting update of code theme in note type styling...")
+            await AnkiConnect.invoke('multi', {actions: temp})
+        }
+        this.applied_styles["Code Theme"] = this.data.code_theme
+    }
+
+    async getMathPreamble(): Promise<string> {
+        const path: string = this.data.math_preamble
+        if (!(path)) {
+            return ""
+        }
+        if (!(await this.app.vault.adapter.exists(path))) {
+            console.warn("Couldn't find math preamble ", path)
+            this.report.issues.push({level: "warning", path: path, line: null, message: "Couldn't find the math preamble"})
+            return ""
+        }
+        return await this.app.vault.adapter.read(path)
+    }
+
+    async updateMathPreamble() {
+        /*Put the math preamble at the top of the card templates of note types with math in this scan.
+
+        If the preamble has changed since it was last put in, it's changed in every other note type that has it too.*/
+        const preamble: string = await this.getMathPreamble()
+        const preamble_hash: string = Md5.hashStr(preamble) as string
+        const scanned_names: string[] = this.getNoteTypesWith(hasMath)
+        const update_all: boolean = this.applied_styles["Math Preamble"] !== preamble_hash
+        const model_names: string[] = update_all ? Array.from(new Set(scanned_names.concat(Object.keys(this.data.fields_dict)))) : scanned_names
+        if (!(model_names.length)) {
+            this.applied_styles["Math Preamble"] = preamble_hash
+            return
+        }
+        console.info("Requesting card templates of note types with math...")
+        const templates_by_model = await AnkiConnect.invoke(
+            'multi', {actions: model_names.map(model_name => AnkiConnect.modelTemplates(model_name))}
+        ) as Array<{result: Record<string, Record<string, string>>, error: string | null}>
+        let temp: AnkiConnect.AnkiConnectRequest[] = []
+        for (let i in model_names) {
+            let templates: Record<string, Record<string, string>>
+            try {
+                templates = AnkiConnect.parse(templates_by_model[i])
+            } catch (e) {
+                console.warn("Couldn't get the card templates of ", model_names[i], ": ", e.message)
+                continue
+            }
+            const sides: string[] = Object.values(templates).flatMap(template => Object.values(template))
+            if (!(scanned_names.includes(model_names[i]) || sides.some(hasMathPreamble))) {
+                continue
+            }
+            let changed: boolean = false
+            for (let card in templates) {
+                for (let side in templates[card]) {
+                    const template: string = withMathPreamble(templates[card][side], preamble)
+                    changed = changed || template !== templates[card][side]
+                    templates[card][side] = template
+                }
+            }
+            if (changed) {
+                temp.push(AnkiConnect.updateModelTemplates(model_names[i], templates))
+            }
+        }
+        if (temp.length) {
+            console.info("Requesting update of math preamble in card templates...")
+            await AnkiConnect.invoke('multi', {actions: temp})
+        }
+        this.applied_styles["Math Preamble"] = preamble_hash
+    }
+
+    async createDecks() {
+        /*Create the decks of the notes to add, as Anki won't add notes to decks that don't exist yet.*/
+        let decks: Set<string> = new Set()
+        for (let file of this.ownFiles) {
+            file.all_notes_to_add.forEach(note => decks.add(note.deckName))
+        }
+        if (!(decks.size)) {
+            return
+        }
+        console.info("Requesting creation of decks...")
+        await AnkiConnect.invoke('multi', {actions: Array.from(decks).map(deck => AnkiConnect.createDeck(deck))})
+    }
+
+    cancel() {
+        //Stop syncing once the current batch is done.
+        this.cancelled = true
+    }
+
+    async sync() {
+        /*Sync the scanned files to Anki in batches, reporting progress after each one.
+
+        If the sync is cancelled or a batch fails, only the files in the batches that completed are kept,
+        so that only their hashes are saved and the rest are scanned again next time.*/
+        await this.updateCodeStyling()
+        await this.updateMathPreamble()
+        await this.createDecks()
+        const own_files: AllFile[] = this.ownFiles
+        const files: TFile[] = this.files
+        let completed: number = 0
+        for (let start = 0; start < own_files.length; start += SYNC_BATCH_SIZE) {
+            if (this.cancelled) {
+                console.info("Sync cancelled after ", completed, " of ", own_files.length, " file(s).")
+                break
+            }
+            this.onProgress(start, own_files.length)
+            this.ownFiles = own_files.slice(start, start + SYNC_BATCH_SIZE)
+            this.files = files.slice(start, start + SYNC_BATCH_SIZE)
+            try {
+                await this.requests_1()
+            } catch (e) {
+                console.error(e)
+                this.batch_error = e
+                this.report.issues.push({
+                    level: "error", path: "", line: null,
+                    message: "Sync stopped after " + completed + " of " + own_files.length + " file(s): " + e.name + ": " + e.message
+                })
+                break
+            }
+            completed = start + this.ownFiles.length
+        }
+        this.onProgress(completed, own_files.length)
+        this.ownFiles = own_files.slice(0, completed)
+        this.files = files.slice(0, completed)
+        this.recordNoteStates()
+        this.findOrphans()
+        this.finishReport(this.batch_error ? "failed" : completed < own_files.length ? "cancelled" : "success")
     }
 
     async requests_1() {
         let requests: AnkiConnect.AnkiConnectRequest[] = []
         let temp: AnkiConnect.AnkiConnectRequest[] = []
+        // Media is only marked as added once the batch has gone through
+        let uploaded: Record<string, string> = {}
         console.info("Requesting addition of notes into Anki...")
         for (let file of this.ownFiles) {
             temp.push(file.getAddNotes())
@@ -191,20 +701,24 @@ export class FileManager {
         temp = []
         console.info("Requesting addition of media...")
         for (let file of this.ownFiles) {
-            const mediaLinks = difference(file.formatter.detectedMedia, this.added_media_set)
-            for (let mediaLink of mediaLinks) {
+            for (let [mediaLink, dataFile] of await this.getMediaToAdd(file)) {
+                if (dataFile && uploaded.hasOwnProperty(dataFile.path)) {
+                    continue
+                }
                 console.log("Adding media file: ", mediaLink)
-                const dataFile = this.app.metadataCache.getFirstLinkpathDest(mediaLink, file.path)
                 if (!(dataFile)) {
                     console.warn("Couldn't locate media file ", mediaLink)
+                    this.report.media_missing.push(mediaLink)
+                    this.report.issues.push({level: "warning", path: file.path, line: null, message: "Couldn't locate media file " + mediaLink})
                 }
                 else {
                     // Located successfully, so treat as if we've added the media
-                    this.added_media_set.add(mediaLink)
+                    uploaded[dataFile.path] = await this.getMediaHash(dataFile)
+                    this.report.media_uploaded.push(dataFile.path)
                     const realPath = (this.app.vault.adapter as FileSystemAdapter).getFullPath(dataFile.path)
                     temp.push(
                         AnkiConnect.storeMediaFileByPath(
-                            basename(mediaLink),
+                            ankiMediaName(dataFile.path),
                             realPath
                         )
                     )
@@ -213,7 +727,14 @@ export class FileManager {
         }
         requests.push(AnkiConnect.multi(temp))
         temp = []
+        // Saved before the notes are added, so their IDs can be recovered if the sync is interrupted
+        const entries: JournalEntry[] = this.ownFiles.flatMap(file => journalEntries(file))
+        if (entries.length) {
+            this.journal.push(...entries)
+            await this.saveJournal()
+        }
         this.requests_1_result = await AnkiConnect.invoke('multi', {actions: requests})
+        Object.assign(this.added_media, uploaded)
         await this.parse_requests_1()
     }
 
@@ -243,23 +764,36 @@ export class FileManager {
                 file_response = note_ids_array_by_file[i].result
             }
             file.note_ids = []
+            const positions: number[] = file.getAddPositions()
             for (let index in file_response) {
                 let i = parseInt(index)
                 let response = file_response[i]
+                const line: number = file.lineAt(positions[i])
                 try {
                     file.note_ids.push(AnkiConnect.parse(response))
+                    file.note_results.push({identifier: file.note_ids[i], action: "added", line})
                 } catch (error) {
                     console.warn("Failed to add note ", file.all_notes_to_add[i], " in file", file.path, " due to error ", error)
                     file.note_ids.push(response.result)
+                    file.note_results.push({identifier: null, action: "failed", line})
+                    this.report.issues.push({level: "error", path: file.path, line, message: "Failed to add note: " + error})
                 }
             }
+            this.journal.filter(entry => entry.path === file.path).forEach(entry => entry.identifier = file.note_ids[entry.index] || null)
         }
+        // The IDs are safe before any are written into files
+        this.removeFromJournal(entry => entry.identifier === null)
+        await this.saveJournal()
+        this.reportEdits(note_info_array_by_file, response[3], response[4])
         for (let index in note_info_array_by_file) {
             let i: number = parseInt(index)
             let file = this.ownFiles[i]
             const file_response = AnkiConnect.parse(note_info_array_by_file[i])
             let temp: number[] = []
             for (let note_response of file_response) {
+                if (file.excluded_deck_changes.has(note_response.noteId)) {
+                    continue
+                }
                 temp.push(...note_response.cards)
             }
             file.card_ids = temp
@@ -274,18 +808,513 @@ export class FileManager {
             if (ownFile.file !== ownFile.original_file) {
                 await this.app.vault.modify(obFile, ownFile.file)
             }
+            this.removeFromJournal(entry => entry.path === ownFile.path)
         }
+        await this.saveJournal()
         await this.requests_2()
     }
 
+    removeFromJournal(test: (entry: JournalEntry) => boolean) {
+        // In place, since the plugin saves the same list
+        const kept: JournalEntry[] = this.journal.filter(entry => !(test(entry)))
+        this.journal.splice(0, this.journal.length, ...kept)
+    }
+
+    async recoverJournal() {
+        /*Write the IDs of notes added by an interrupted sync into their files, so that they aren't added again.
+
+        Notes that Anki never returned an ID for are looked for in Anki by their fields.
+        The journal is emptied, and what was recovered is recorded in the report.*/
+        if (!(this.journal.length)) {
+            return
+        }
+        console.info("Recovering ", this.journal.length, " note(s) from an interrupted sync...")
+        const exists: Record<number, boolean> = await findJournalNotes(this.journal, this.note_states)
+        for (let entry of this.journal.filter(entry => !(entry.identifier && exists[entry.identifier]))) {
+            console.info("Note at ", entry.path, " line ", entry.line, " isn't in Anki, so it'll be added by the next scan.")
+        }
+        const entries: JournalEntry[] = this.journal.filter(entry => entry.identifier && exists[entry.identifier])
+        for (let path of new Set(entries.map(entry => entry.path))) {
+            await this.recoverFile(path, entries.filter(entry => entry.path === path))
+        }
+        this.removeFromJournal(() => true)
+    }
+
+    async recoverFile(path: string, entries: JournalEntry[]) {
+        /*Write the IDs of entries into the file at path.
+
+        Each note is found by its fields, since its index may not line up with the rescanned file if a preview left notes out.
+        It's looked for at its old index first, then, if the file hasn't changed since, on its old line.*/
+        const file = this.app.vault.getAbstractFileByPath(path)
+        if (!(file instanceof TFile)) {
+            for (let entry of entries) {
+                this.report.issues.push({
+                    level: "warning", path, line: entry.line,
+                    message: "Note " + entry.identifier + " was added to Anki by an interrupted sync, but its file no longer exists."
+                })
+            }
+            return
+        }
+        let all_file: AllFile = await this.readFile(file)
+        all_file.scanFile()
+        const notes = all_file.all_notes_to_add
+        const positions: number[] = all_file.getAddPositions()
+        const unchanged: boolean = Md5.hashStr(all_file.original_file) === entries[0].hash
+        all_file.note_ids = notes.map((): number | null => null)
+        for (let entry of entries) {
+            const matches = (i: number): boolean => (
+                i < notes.length && all_file.note_ids[i] === null && sameNote(notes[i], entry.note.modelName, entry.note.fields)
+            )
+            let index: number = matches(entry.index) ? entry.index : -1
+            if (index === -1 && unchanged) {
+                index = notes.findIndex((_note, i) => matches(i) && all_file.lineAt(positions[i]) === entry.line)
+            }
+            if (index === -1) {
+                index = notes.findIndex((_note, i) => matches(i))
+            }
+            if (index === -1) {
+                this.report.issues.push({
+                    level: "warning", path, line: entry.line,
+                    message: "Note " + entry.identifier + " was added to Anki by an interrupted sync, but couldn't be found in the file to write its ID."
+                })
+                continue
+            }
+            all_file.note_ids[index] = entry.identifier
+            this.report.recovered.push(path + ", line " + entry.line + ": note " + entry.identifier)
+        }
+        all_file.writeIDs()
+        if (all_file.file !== all_file.original_file) {
+            await this.app.vault.modify(file, all_file.file)
+        }
+    }
+
+    reportEdits(note_info_array_by_file: notesInfoResponse[], update_response: any, delete_response: any) {
+        /*Record the result of updating and deleting each note in the sync report.
+
+        Notes are only counted as updated if their fields in Anki, from before the update, were different.*/
+        for (let index in this.ownFiles) {
+            const i = parseInt(index)
+            let file = this.ownFiles[i]
+            let anki_fields: Record<number, Record<string, string>> = {}
+            for (let note_info of AnkiConnect.parse(note_info_array_by_file[i])) {
+                anki_fields[note_info.noteId] = fieldValues(note_info)
+            }
+            const reported: Set<number> = new Set(file.note_results.map(result => result.identifier))
+            const update_results: Array<{result: any, error: string | null}> = update_response.result[i].result || []
+            let update_index: number = 0
+            for (let parsed of file.notes_to_edit) {
+                const line: number = file.lineAt(parsed.source.start)
+                if (this.pulled_states.hasOwnProperty(parsed.identifier)) {
+                    file.note_results.push({identifier: parsed.identifier, action: "updated", line})
+                    continue
+                }
+                if (file.excluded_updates.has(parsed.identifier)) {
+                    if (!(reported.has(parsed.identifier))) {
+                        file.note_results.push({identifier: parsed.identifier, action: "skipped", line})
+                    }
+                    continue
+                }
+                const update_result = update_results[update_index]
+                update_index += 1
+                if (update_result && update_result.error) {
+                    file.failed_updates.add(parsed.identifier)
+                    // Keep scanning the file until the update goes through
+                    this.partial_files.add(file.path)
+                    file.note_results.push({identifier: parsed.identifier, action: "failed", line})
+                    this.report.issues.push({
+                        level: "error", path: file.path, line,
+                        message: "Failed to update note " + parsed.identifier + ": " + update_result.error
+                    })
+                } else if (Object.keys(parsed.note.fields).some(field => (anki_fields[parsed.identifier] || {})[field] !== parsed.note.fields[field])) {
+                    file.note_results.push({identifier: parsed.identifier, action: "updated", line})
+                }
+            }
+            const delete_error: string | null = delete_response.result[i].error
+            if (delete_error) {
+                this.report.issues.push({
+                    level: "error", path: file.path, line: null,
+                    message: "Failed to delete notes " + file.notes_to_delete.join(", ") + ": " + delete_error
+                })
+            }
+            for (let identifier of file.notes_to_delete) {
+                file.note_results.push({identifier, action: delete_error ? "failed" : "deleted", line: null})
+            }
+        }
+    }
+
+    finishReport(result: string) {
+        /*Total up the per-file results, ready for the report to be saved.*/
+        const count = (action: NoteAction): number => this.report.files.reduce(
+            (total, file) => total + file.notes.filter(note => note.action === action).length, 0
+        )
+        for (let file of this.ownFiles) {
+            if (file.note_results.length) {
+                this.report.files.push({path: file.path, notes: file.note_results})
+            }
+            this.report.issues.push(...file.issues)
+        }
+        this.report.added = count("added")
+        this.report.updated = count("updated")
+        this.report.deleted = count("deleted")
+        this.report.skipped = count("skipped")
+        this.report.failed = count("failed")
+        this.report.finished = new Date().toISOString()
+        this.report.result = result
+    }
+
+    findOrphans() {
+        /*Flag notes synced from a file that can no longer be found in it, e.g. as the block or the file was deleted.
+
+        That's only done when the whole vault is scanned, as a note missing from its file may have moved to one outside the scan.*/
+        let seen: Set<number> = new Set()
+        for (let file of this.ownFiles) {
+            file.notes_to_edit.forEach(parsed => seen.add(parsed.identifier))
+            file.note_ids.forEach(identifier => seen.add(identifier))
+        }
+        const scanned_paths: Set<string> = new Set(this.ownFiles.map(file => file.path))
+        for (let key in this.note_states) {
+            const identifier: number = parseInt(key)
+            const state: NoteState = this.note_states[identifier]
+            if (seen.has(identifier)) {
+                delete state.orphaned
+                continue
+            }
+            const file_exists: boolean = this.app.vault.getAbstractFileByPath(state.path) instanceof TFile
+            if (file_exists && !(scanned_paths.has(state.path))) {
+                // Unchanged since the last scan, so the note is still there
+                continue
+            }
+            if (!(this.whole_vault)) {
+                continue
+            }
+            if (this.data.EXISTING_IDS.includes(identifier)) {
+                console.warn("Note ", identifier, " from ", state.path, " is no longer in the vault.")
+                this.report.issues.push({
+                    level: "warning", path: state.path, line: null,
+                    message: "Note " + identifier + " is no longer in the vault, and is still in Anki."
+                })
+                state.orphaned = true
+            } else {
+                // Already gone from Anki too, so nothing to report
+                delete this.note_states[identifier]
+            }
+        }
+    }
+
+    async findAnkiEdits() {
+        /*Find files with notes edited in Anki since they were last synced, so they get scanned even if their hash is unchanged.
+
+        Only the files that will be read are checked, so that routine scans stay quick,
+        which means notes edited in Anki in files left alone since are only pulled by a full rescan.*/
+        if (!(this.data.two_way)) {
+            return
+        }
+        const paths: Set<string> = new Set(this.files.filter(file => this.mayHaveChanged(file, this.getStat(file))).map(file => file.path))
+        const identifiers: number[] = Object.keys(this.note_states).map(
+            key => parseInt(key)
+        ).filter(identifier => paths.has(this.note_states[identifier].path))
+        if (!(identifiers.length)) {
+            return
+        }
+        console.info("Checking for notes edited in Anki...")
+        for (let note_info of await notesInfo(identifiers)) {
+            // Notes deleted from Anki come back empty
+            if (!(note_info.noteId)) {
+                continue
+            }
+            const state: NoteState = this.note_states[note_info.noteId]
+            if (fieldsDiffer(fieldValues(note_info), state.fields)) {
+                this.forceScan([state.path], "its notes were edited in Anki.")
+            }
+        }
+    }
+
+    async findDuplicateIDs(intended: Record<number, string[]>) {
+        /*Find note IDs claimed by more than one place in the vault, and don't update those notes from any of them.
+
+        Besides the scanned files, the file each note was last synced from is checked, as it may not have been scanned.
+        IDs kept as intended duplicates are only flagged again if they turn up in another file.*/
+        let locations_by_id: Record<number, NoteLocation[]> = {}
+        for (let file of this.ownFiles) {
+            for (let parsed of file.notes_to_edit) {
+                const line: number = idLine(file.original_file, parsed.identifier, parsed.source.start) || file.lineAt(parsed.source.start)
+                locations_by_id[parsed.identifier] = (locations_by_id[parsed.identifier] || []).concat([{path: file.path, line}])
+            }
+        }
+        const scanned_paths: Set<string> = new Set(this.ownFiles.map(file => file.path))
+        for (let key in locations_by_id) {
+            const identifier: number = parseInt(key)
+            const state: NoteState | undefined = this.note_states[identifier]
+            if (!(state) || scanned_paths.has(state.path)) {
+                continue
+            }
+            const synced_file = this.app.vault.getAbstractFileByPath(state.path)
+            if (!(synced_file instanceof TFile)) {
+                continue
+            }
+            const line: number | null = idLine(await this.app.vault.cachedRead(synced_file), identifier)
+            if (line !== null) {
+                locations_by_id[identifier].push({path: state.path, line})
+            }
+        }
+        for (let key in locations_by_id) {
+            const identifier: number = parseInt(key)
+            const locations: NoteLocation[] = locations_by_id[identifier]
+            if (locations.length < 2) {
+                continue
+            }
+            if (intended.hasOwnProperty(identifier) && locations.every(location => intended[identifier].includes(location.path))) {
+                continue
+            }
+            this.duplicates.push({identifier, locations})
+            const places: string = locations.map(location => location.path + " line " + location.line).join(", ")
+            for (let file of this.ownFiles) {
+                for (let parsed of file.notes_to_edit.filter(parsed => parsed.identifier === identifier)) {
+                    file.skipNote(identifier, parsed.source.start, "Note " + identifier + " wasn't updated, as its ID is in more than one place: " + places)
+                }
+                if (locations.some(location => location.path === file.path)) {
+                    file.excluded_updates.add(identifier)
+                    file.excluded_deck_changes.add(identifier)
+                    file.excluded_tag_changes.add(identifier)
+                    // Keep scanning the file until the duplicate is resolved
+                    this.partial_files.add(file.path)
+                }
+            }
+        }
+    }
+
+    async resolveAnkiEdits() {
+        /*For notes changed in Anki since the last sync, pull the changes into the file if it hasn't changed too.
+
+        If both have changed, the note is reported as a conflict and left alone.*/
+        if (!(this.data.two_way)) {
+            return
+        }
+        let temp: AnkiConnect.AnkiConnectRequest[] = []
+        for (let file of this.ownFiles) {
+            temp.push(file.getNoteInfo())
+        }
+        const note_info_array_by_file = await AnkiConnect.invoke('multi', {actions: temp}) as notesInfoResponse[]
+        for (let index in this.ownFiles) {
+            const i = parseInt(index)
+            let file = this.ownFiles[i]
+            const note_infos = AnkiConnect.parse(note_info_array_by_file[i])
+            file.notes_to_edit.forEach(
+                (parsed, note_index) => {
+                    const note_info = note_infos[note_index]
+                    const state: NoteState = this.note_states[parsed.identifier]
+                    if (!(state) || !(note_info.noteId) || file.excluded_updates.has(parsed.identifier)) {
+                        return
+                    }
+                    const anki_fields: Record<string, string> = fieldValues(note_info)
+                    if (!(fieldsDiffer(anki_fields, state.fields))) {
+                        return
+                    }
+                    file.excluded_updates.add(parsed.identifier)
+                    const changed_in_obsidian: boolean = fieldsDiffer(parsed.note.fields, state.fields)
+                    if (!(changed_in_obsidian) && file.pullNote(parsed, anki_fields, state.fields)) {
+                        console.info("Pulling edits to note ", parsed.identifier, " from Anki into ", file.path)
+                        this.pulled_states[parsed.identifier] = {path: file.path, fields: anki_fields}
+                    } else {
+                        file.skipNote(parsed.identifier, parsed.source.start, "Note " + parsed.identifier + " in " + file.path + (
+                            changed_in_obsidian ? " has been changed in both Obsidian and Anki!" : " was changed in Anki, but can't be written back into the file, for example as it embeds other notes."
+                        ))
+                        this.conflicts.push({
+                            path: file.path,
+                            identifier: parsed.identifier,
+                            obsidian_fields: parsed.note.fields,
+                            anki_fields: anki_fields
+                        })
+                        // Keep scanning the file until the conflict is resolved
+                        this.partial_files.add(file.path)
+                    }
+                }
+            )
+        }
+    }
+
+    recordNoteStates() {
+        /*Remember the fields of every note as synced, to detect edits on either side next time.*/
+        for (let file of this.ownFiles) {
+            file.all_notes_to_add.forEach(
+                (note, index) => {
+                    const identifier: number | null = file.note_ids[index]
+                    if (identifier) {
+                        this.note_states[identifier] = {path: file.path, fields: note.fields}
+                    }
+                }
+            )
+            for (let parsed of file.notes_to_edit) {
+                if (this.pulled_states.hasOwnProperty(parsed.identifier)) {
+                    this.note_states[parsed.identifier] = this.pulled_states[parsed.identifier]
+                } else if (!(file.excluded_updates.has(parsed.identifier) || file.failed_updates.has(parsed.identifier))) {
+                    this.note_states[parsed.identifier] = {path: file.path, fields: parsed.note.fields}
+                }
+            }
+            for (let identifier of file.notes_to_delete) {
+                delete this.note_states[identifier]
+            }
+        }
+    }
+
     getHashes(): Record<string, string> {
         let result: Record<string, string> = {}
         for (let file of this.ownFiles) {
+            if (this.partial_files.has(file.path)) {
+                // Some changes were skipped, so the file should be scanned again next time
+                continue
+            }
             result[file.path] = file.getHash()
         }
         return result
     }
 
+    getStats(): Record<string, FileStat> {
+        /*Stats of the files read in this scan whose hashes are up to date, so they needn't be read again until they change.*/
+        const hashes = this.getHashes()
+        let result: Record<string, FileStat> = {}
+        for (let path in this.read_stats) {
+            if (hashes.hasOwnProperty(path) || this.unchanged_paths.has(path)) {
+                result[path] = this.read_stats[path]
+            }
+        }
+        return result
+    }
+
+    async getChangePlan(): Promise<ChangePlan> {
+        /*Work out what requests_1 and requests_2 would do, without changing anything in Anki.*/
+        let plan: ChangePlan = {
+            additions: [],
+            updates: [],
+            deletions: [],
+            deck_changes: [],
+            tag_changes: [],
+            media: [],
+            rewrites: []
+        }
+        let temp: AnkiConnect.AnkiConnectRequest[] = []
+        console.info("Requesting info of notes to be edited...")
+        for (let file of this.ownFiles) {
+            temp.push(file.getNoteInfo())
+        }
+        const note_info_array_by_file = await AnkiConnect.invoke('multi', {actions: temp}) as notesInfoResponse[]
+        let note_info_by_file: Array<notesInfoResponse["result"]> = []
+        let card_ids: number[] = []
+        for (let file_response of note_info_array_by_file) {
+            const note_infos = AnkiConnect.parse(file_response)
+            note_info_by_file.push(note_infos)
+            for (let note_info of note_infos) {
+                card_ids.push(...note_info.cards)
+            }
+        }
+        console.info("Requesting decks of cards to be edited...")
+        const card_info_response = await AnkiConnect.invoke('multi', {actions: [AnkiConnect.cardsInfo(card_ids)]}) as cardsInfoResponse[]
+        const card_infos = AnkiConnect.parse(card_info_response[0])
+        let card_decks: Record<number, string> = {}
+        for (let card_info of card_infos) {
+            card_decks[card_info.cardId] = card_info.deckName
+        }
+        for (let index in this.ownFiles) {
+            const i = parseInt(index)
+            let file = this.ownFiles[i]
+            file.all_notes_to_add.forEach(
+                (note, note_index) => plan.additions.push({path: file.path, selected: true, index: note_index, note: note})
+            )
+            file.notes_to_edit.forEach(
+                (parsed, note_index) => {
+                    const note_info = note_info_by_file[i][note_index]
+                    let diffs = []
+                    for (let field in parsed.note.fields) {
+                        const old_value: string = note_info.fields.hasOwnProperty(field) ? note_info.fields[field].value : ""
+                        if (old_value !== parsed.note.fields[field]) {
+                            diffs.push({field: field, old_value: old_value, new_value: parsed.note.fields[field]})
+                        }
+                    }
+                    if (diffs.length && !(file.excluded_updates.has(parsed.identifier))) {
+                        plan.updates.push({path: file.path, selected: true, identifier: parsed.identifier, diffs: diffs})
+                    }
+                    const new_tags: string[] = file.getNewTags(parsed)
+                    const tags_differ: boolean = new_tags.length != note_info.tags.length || new_tags.some(tag => !note_info.tags.includes(tag))
+                    if (tags_differ && !(file.excluded_tag_changes.has(parsed.identifier))) {
+                        plan.tag_changes.push({
+                            path: file.path, selected: true, identifier: parsed.identifier,
+                            old_tags: note_info.tags, new_tags: new_tags
+                        })
+                    }
+                    const old_decks: string[] = Array.from(new Set(note_info.cards.map(card_id => card_decks[card_id])))
+                    if (old_decks.some(deck => deck !== file.target_deck) && !(file.excluded_deck_changes.has(parsed.identifier))) {
+                        plan.deck_changes.push({
+                            path: file.path, selected: true, identifier: parsed.identifier,
+                            old_decks: old_decks, new_deck: file.target_deck
+                        })
+                    }
+                }
+            )
+            for (let identifier of file.notes_to_delete) {
+                plan.deletions.push({path: file.path, selected: true, identifier: identifier})
+            }
+            for (let [mediaLink, dataFile] of await this.getMediaToAdd(file)) {
+                plan.media.push({
+                    path: file.path, selected: true, link: mediaLink, found: dataFile ? true : false
+                })
+            }
+            if (file.all_notes_to_add.length || file.notes_to_delete.length || file.pulled_blocks.length) {
+                plan.rewrites.push(file.path)
+            }
+        }
+        return plan
+    }
+
+    async editedFiles(): Promise<string[]> {
+        //Paths of the scanned files that have been edited since they were read, which writing IDs would overwrite.
+        let result: string[] = []
+        for (let index in this.ownFiles) {
+            const i = parseInt(index)
+            const file: TAbstractFile | null = this.app.vault.getAbstractFileByPath(this.files[i].path)
+            if (!(file instanceof TFile) || await this.app.vault.read(file) !== this.ownFiles[i].original_file) {
+                result.push(this.ownFiles[i].path)
+            }
+        }
+        return result
+    }
+
+    async applyPlan(plan: ChangePlan) {
+        /*Restrict the scanned files to the selected items of plan, ready for requests_1.*/
+        const for_file = <T extends PlanItem>(items: T[], path: string): T[] => items.filter(item => item.path === path)
+        const deselected_ids = (items: Array<PlanItem & {identifier: number}>): Set<number> => new Set(
+            items.filter(item => !item.selected).map(item => item.identifier)
+        )
+        let files_kept: Array<AllFile> = []
+        let obfiles_kept: TFile[] = []
+        for (let index in this.ownFiles) {
+            const i = parseInt(index)
+            let file = this.ownFiles[i]
+            const plan_items: PlanItem[][] = [
+                plan.additions, plan.updates, plan.deletions, plan.deck_changes, plan.tag_changes, plan.media
+            ]
+            const all_items: PlanItem[] = [].concat(...plan_items.map(items => for_file(items, file.path)))
+            if (all_items.some(item => !item.selected)) {
+                this.partial_files.add(file.path)
+            }
+            file.filterNotesToAdd(
+                new Set(for_file(plan.additions, file.path).filter(item => item.selected).map(item => item.index))
+            )
+            file.notes_to_delete = for_file(plan.deletions, file.path).filter(item => item.selected).map(item => item.identifier)
+            deselected_ids(for_file(plan.updates, file.path)).forEach(identifier => file.excluded_updates.add(identifier))
+            deselected_ids(for_file(plan.deck_changes, file.path)).forEach(identifier => file.excluded_deck_changes.add(identifier))
+            deselected_ids(for_file(plan.tag_changes, file.path)).forEach(identifier => file.excluded_tag_changes.add(identifier))
+            for (let media of for_file(plan.media, file.path)) {
+                if (!media.selected) {
+                    file.formatter.detectedMedia.delete(media.link)
+                }
+            }
+            files_kept.push(file)
+            obfiles_kept.push(this.files[i])
+        }
+        this.ownFiles = files_kept
+        this.files = obfiles_kept
+    }
+
     async requests_2(): Promise<void> {
         let requests: AnkiConnect.AnkiConnectRequest[] = []
         let temp: AnkiConnect.AnkiConnectRequest[] = []
@@ -2,7 +2,10 @@ import { AnkiConnectNote } from './interfaces/note-interface'
 import { basename, extname } from 'path'
 import { Converter } from 'showdown'
 import { CachedMetadata } from 'obsidian'
+import { Md5 } from 'ts-md5/dist/md5'
 import * as c from './constants'
+import { Transclusion, TranscludedLink } from './interfaces/transclusion-interface'
+import { obsidianToAnkiMath } from './math'
 
 import showdownHighlight from 'showdown-highlight'
 
@@ -15,8 +18,30 @@ const DISPLAY_CODE_REPLACE:string = "OBSTOANKICODEDISPLAY"
 
 const CLOZE_REGEXP:RegExp = /(?:(?<!{){(?:c?(\d+)[:|])?(?!{))((?:[^\n][\n]?)+?)(?:(?<!})}(?!}))/g
 
-const IMAGE_EXTS: string[] = [".png", ".jpg", ".jpeg", ".gif", ".bmp", ".svg", ".tiff"]
-const AUDIO_EXTS: string[] = [".wav", ".m4a", ".flac", ".mp3", ".wma", ".aac", ".webm"]
+export type MediaKind = "image" | "sound" | "link"
+
+// How embeds of each extension are written in Anki. Anki plays video as well as audio with [sound:]
+export const DEFAULT_MEDIA_TYPES: Record<string, MediaKind> = {
+	".png": "image", ".jpg": "image", ".jpeg": "image", ".gif": "image", ".bmp": "image", ".svg": "image", ".tiff": "image",
+	".webp": "image", ".avif": "image",
+	".wav": "sound", ".m4a": "sound", ".flac": "sound", ".mp3": "sound", ".wma": "sound", ".aac": "sound", ".webm": "sound",
+	".ogg": "sound", ".opus": "sound",
+	".mp4": "sound", ".mov": "sound", ".mkv": "sound",
+	".pdf": "link"
+}
+
+const ANKI_INLINE_MATH_REGEXP:RegExp = /\\\(([\s\S]*?)\\\)/g
+const ANKI_DISPLAY_MATH_REGEXP:RegExp = /\\\[([\s\S]*?)\\\]/g
+const ANKI_IMAGE_REGEXP:RegExp = /<img [^>]*?src="([^"]*)"[^>]*>/g
+const ANKI_SOUND_REGEXP:RegExp = /\[sound:(.*?)\]/g
+const ANKI_MEDIA_LINK_REGEXP:RegExp = /<a href="([^"]*)" class="anki-media-link">[\s\S]*?<\/a>/g
+const ANKI_MARK_REGEXP:RegExp = /<mark>([\s\S]*?)<\/mark>/g
+const ANKI_OBSIDIAN_LINK_REGEXP:RegExp = /<a href="obsidian:\/\/open\?vault=[^"&]*&(?:amp;)?file=([^"]*)"[^>]*>([\s\S]*?)<\/a>/g
+const ANKI_DOLLAR_REGEXP:RegExp = /<code\b[\s\S]*?<\/code>|\$/g
+const ANKI_STYLESHEET_REGEXP:RegExp = /<link [^>]*?rel="stylesheet"[^>]*>/g
+const MARKDOWN_REPLACE:string = "OBSTOANKIMARKDOWN"
+// Masks are numbered, as they're made in several passes and so aren't in order
+const MARKDOWN_MASK_REGEXP:RegExp = new RegExp(MARKDOWN_REPLACE + String.raw`(\d+)` + MARKDOWN_REPLACE, "g")
 
 const PARA_OPEN:string = "<p>"
 const PARA_CLOSE:string = "</p>"
@@ -32,6 +57,23 @@ let converter: Converter = new Converter({
 	extensions: [showdownHighlight]
 })
 
+export function ankiMediaName(path: string): string {
+	/*Filename to store the media at path under in Anki.
+
+	A hash of the vault path is added, so that media with the same name in different folders don't overwrite each other.*/
+	const ext: string = extname(path)
+	return basename(path, ext) + "-" + (Md5.hashStr(path) as string).slice(0, 8) + ext
+}
+
+function unescapeHtml(safe: string): string {
+	return safe
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#039;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
 function escapeHtml(unsafe: string): string {
     return unsafe
          .replace(/&/g, "&amp;")
@@ -46,11 +88,28 @@ export class FormatConverter {
 	file_cache: CachedMetadata
 	vault_name: string
 	detectedMedia: Set<string>
+	media_paths: Record<string, string>
+	media_links: Record<string, string>
+	media_types: Record<string, MediaKind>
+	transclusions: Record<string, Transclusion>
 
-	constructor(file_cache: CachedMetadata, vault_name: string) {
+	constructor(file_cache: CachedMetadata, vault_name: string, media_paths: Record<string, string> = {}, media_types: Record<string, MediaKind> = DEFAULT_MEDIA_TYPES, transclusions: Record<string, Transclusion> = {}) {
 		this.vault_name = vault_name
 		this.file_cache = file_cache
 		this.detectedMedia = new Set()
+		this.media_paths = media_paths
+		this.media_types = media_types
+		this.transclusions = transclusions
+		// For turning Anki filenames back into links
+		this.media_links = {}
+		for (let link in media_paths) {
+			this.media_links[ankiMediaName(media_paths[link])] = link
+		}
+	}
+
+	getMediaName(link: string): string {
+		//Links that don't resolve to a vault file keep their own name.
+		return this.media_paths.hasOwnProperty(link) ? ankiMediaName(this.media_paths[link]) : basename(link)
 	}
 
 	getUrlFromLink(link: string): string {
@@ -68,12 +127,7 @@ export class FormatConverter {
 	}
 
 	obsidian_to_anki_math(note_text: string): string {
-		return note_text.replace(
-				c.OBS_DISPLAY_MATH_REGEXP, "\\[$1\\]"
-		).replace(
-			c.OBS_INLINE_MATH_REGEXP,
-			"\\($1\\)"
-		)
+		return obsidianToAnkiMath(note_text)
 	}
 
 	cloze_repl(_1: string, match_id: string, match_content: string): string {
@@ -93,33 +147,60 @@ export class FormatConverter {
 		return text
 	}
 
+	transclude(note_text: string): string {
+		/*Inline the text of embedded notes, headings and blocks.*/
+		for (let original in this.transclusions) {
+			note_text = note_text.replace(new RegExp(c.escapeRegex(original), "g"), () => this.transclusions[original].text)
+		}
+		return note_text
+	}
+
+	getTranscludedLinks(kind: "embeds" | "links"): TranscludedLink[] {
+		let result: TranscludedLink[] = []
+		for (let original in this.transclusions) {
+			result.push(...this.transclusions[original][kind])
+		}
+		return result
+	}
+
 	getAndFormatMedias(note_text: string): string {
-		if (!(this.file_cache.hasOwnProperty("embeds"))) {
-			return note_text
+		let embeds: TranscludedLink[] = this.getTranscludedLinks("embeds")
+		if (this.file_cache.hasOwnProperty("embeds")) {
+			embeds.unshift(...this.file_cache.embeds)
 		}
-		for (let embed of this.file_cache.embeds) {
+		for (let embed of embeds) {
 			if (note_text.includes(embed.original)) {
-				this.detectedMedia.add(embed.link)
-				if (AUDIO_EXTS.includes(extname(embed.link))) {
-					note_text = note_text.replace(new RegExp(c.escapeRegex(embed.original), "g"), "[sound:" + basename(embed.link) + "]")
-				} else if (IMAGE_EXTS.includes(extname(embed.link))) {
-					note_text = note_text.replace(
-						new RegExp(c.escapeRegex(embed.original), "g"),
-						'<img src="' + basename(embed.link) + '" alt="' + embed.displayText + '">'
-					)
-				} else {
+				const ext: string = extname(embed.link).toLowerCase()
+				if (!(this.media_types.hasOwnProperty(ext))) {
 					console.warn("Unsupported extension: ", extname(embed.link))
+					continue
+				}
+				this.detectedMedia.add(embed.link)
+				const name: string = this.getMediaName(embed.link)
+				let replacement: string
+				switch (this.media_types[ext]) {
+					case "sound":
+						replacement = "[sound:" + name + "]"
+						break
+					case "image":
+						replacement = '<img src="' + name + '" alt="' + embed.displayText + '">'
+						break
+					case "link":
+						replacement = '<a href="' + name + '" class="anki-media-link">' + embed.displayText + '</a>'
+						break
 				}
+				note_text = note_text.replace(new RegExp(c.escapeRegex(embed.original), "g"), () => replacement)
 			}
 		}
 		return note_text
 	}
 
 	formatLinks(note_text: string): string {
-		if (!(this.file_cache.hasOwnProperty("links"))) {
-			return note_text
+		let links: TranscludedLink[] = this.getTranscludedLinks("links")
+		if (this.file_cache.hasOwnProperty("links")) {
+			links.unshift(...this.file_cache.links)
 		}
-		for (let link of this.file_cache.links) {
+		for (let link of links) {
 			note_text = note_text.replace(new RegExp(c.escapeRegex(link.original), "g"), '<a href="' + this.getUrlFromLink(link.link) + '">' + link.displayText + "</a>")
 		}
 		return note_text
@@ -136,20 +217,21 @@ export class FormatConverter {
 
 	decensor(note_text: string, mask:string, replacements: string[], escape: boolean): string {
 		for (let replacement of replacements) {
+			// Using a function, so that $ in the replacement isn't treated as a special pattern
 			note_text = note_text.replace(
-				mask, escape ? escapeHtml(replacement) : replacement
+				mask, () => escape ? escapeHtml(replacement) : replacement
 			)
 		}
 		return note_text
 	}
 
 	format(note_text: string, cloze: boolean, highlights_to_cloze: boolean): string {
+		note_text = this.transclude(note_text)
 		note_text = this.obsidian_to_anki_math(note_text)
 		//Extract the parts that are anki math
 		let math_matches: string[]
 		let inline_code_matches: string[]
 		let display_code_matches: string[]
-		const add_highlight_css: boolean = note_text.match(c.OBS_DISPLAY_CODE_REGEXP) ? true : false;
 		[note_text, math_matches] = this.censor(note_text, ANKI_MATH_REGEXP, MATH_REPLACE);
 		[note_text, display_code_matches] = this.censor(note_text, c.OBS_DISPLAY_CODE_REGEXP, DISPLAY_CODE_REPLACE);
 		[note_text, inline_code_matches] = this.censor(note_text, c.OBS_CODE_REGEXP, INLINE_CODE_REPLACE);
@@ -171,12 +253,40 @@ export class FormatConverter {
 		if (note_text.startsWith(PARA_OPEN) && note_text.endsWith(PARA_CLOSE)) {
 			note_text = note_text.slice(PARA_OPEN.length, -1 * PARA_CLOSE.length)
 		}
-		if (add_highlight_css) {
-			note_text = '<link href="' + c.CODE_CSS_URL + '" rel="stylesheet">' + note_text
-		}
 		return note_text
 	}
 
+	anki_to_markdown(note_text: string): string {
+		/*Roughly the inverse of format, for pulling edits made in Anki back into a file.
+
+		Obsidian syntax is masked while the HTML is converted, so it doesn't get escaped.*/
+		let markdown_matches: string[] = []
+		const mask = (markdown: string): string => {
+			markdown_matches.push(markdown)
+			return MARKDOWN_REPLACE + (markdown_matches.length - 1).toString() + MARKDOWN_REPLACE
+		}
+		note_text = note_text.replace(ANKI_STYLESHEET_REGEXP, "")
+		note_text = note_text.replace(ANKI_DISPLAY_MATH_REGEXP, (_1: string, math: string) => mask("$$" + unescapeHtml(math) + "$$"))
+		note_text = note_text.replace(ANKI_INLINE_MATH_REGEXP, (_1: string, math: string) => mask("$" + unescapeHtml(math) + "$"))
+		const media_link = (filename: string): string => this.media_links[filename] || filename
+		note_text = note_text.replace(ANKI_IMAGE_REGEXP, (_1: string, src: string) => mask("![[" + media_link(unescapeHtml(src)) + "]]"))
+		note_text = note_text.replace(ANKI_SOUND_REGEXP, (_1: string, filename: string) => mask("![[" + media_link(filename) + "]]"))
+		note_text = note_text.replace(ANKI_MEDIA_LINK_REGEXP, (_1: string, href: string) => mask("![[" + media_link(unescapeHtml(href)) + "]]"))
+		note_text = note_text.replace(
+			ANKI_OBSIDIAN_LINK_REGEXP,
+			(_1: string, file: string, text: string) => {
+				const link: string = decodeURIComponent(unescapeHtml(file))
+				return mask(link === text ? "[[" + link + "]]" : "[[" + link + "|" + text + "]]")
+			}
+		)
+		// Any dollars left outside code aren't math in Anki, so mustn't become math in the file
+		note_text = note_text.replace(ANKI_DOLLAR_REGEXP, (match: string) => match === "$" ? mask("\\$") : match)
+		note_text = note_text.replace(ANKI_MARK_REGEXP, (_1: string, text: string) => "==" + text + "==")
+		note_text = converter.makeMarkdown(note_text)
+		note_text = note_text.replace(MARKDOWN_MASK_REGEXP, (_1: string, index: string) => markdown_matches[parseInt(index)])
+		return note_text.trim()
+	}
+
 
 
 
@@ -0,0 +1,5 @@
+export interface FileStat {
+	//The size and modification time of a file when it was last read, to tell whether it needs reading again.
+	mtime: number,
+	size: number
+}
@@ -0,0 +1,15 @@
+import { AnkiConnectNote } from './note-interface'
+
+export interface JournalEntry {
+	//A note being added to Anki, kept until its ID has been written into its file.
+	path: string,
+	// In the notes added from the file, which a preview may have left some out of
+	index: number,
+	line: number,
+	// Of the file as it was read, before any IDs were written
+	hash: string,
+	note: AnkiConnectNote,
+	// Null until Anki has said what the note's ID is
+	identifier: number | null,
+	time: string
+}
@@ -11,5 +11,42 @@ export interface AnkiConnectNote {
 
 export interface AnkiConnectNoteAndID {
 	note: AnkiConnectNote,
-	identifier: number | null
+	identifier: number | null,
+	base_fields?: Record<string, string>,
+	markdown_fields?: Record<string, string>,
+	field_tags?: Record<string, string[]>,
+	source?: NoteSource
+}
+
+export interface NoteSource {
+	//Where a note was found in its file, so that it can be rewritten.
+	kind: "note" | "inline" | "regex" | "heading" | "separator" | "multiline" | "callout",
+	start: number,
+	end: number,
+	groups?: string[]
+}
+
+export interface NoteState {
+	//The note as it was last synced, to tell which side has changed since.
+	path: string,
+	fields: Record<string, string>,
+	orphaned?: boolean
+}
+
+export interface NoteConflict {
+	path: string,
+	identifier: number,
+	obsidian_fields: Record<string, string>,
+	anki_fields: Record<string, string>
+}
+
+export interface NoteLocation {
+	path: string,
+	line: number
+}
+
+export interface DuplicateID {
+	//A note ID found in more than one place in the vault, so the note isn't updated from any of them.
+	identifier: number,
+	locations: NoteLocation[]
 }
@@ -0,0 +1,19 @@
+export interface CardTemplate {
+	name: string,
+	front: string,
+	back: string
+}
+
+export interface NoteTypeDefinition {
+	//A note type the plugin creates and keeps up to date in Anki.
+	fields: string[],
+	templates: CardTemplate[],
+	css: string,
+	cloze?: boolean
+}
+
+export interface NoteTypeSyncResult {
+	created: string[],
+	updated: string[],
+	errors: string[]
+}
@@ -0,0 +1,54 @@
+import { AnkiConnectNote } from './note-interface'
+
+export interface FieldDiff {
+	field: string,
+	old_value: string,
+	new_value: string
+}
+
+export interface PlanItem {
+	//Every item can be deselected in the preview before applying.
+	path: string,
+	selected: boolean
+}
+
+export interface NoteAddition extends PlanItem {
+	index: number,
+	note: AnkiConnectNote
+}
+
+export interface NoteUpdate extends PlanItem {
+	identifier: number,
+	diffs: FieldDiff[]
+}
+
+export interface NoteDeletion extends PlanItem {
+	identifier: number
+}
+
+export interface DeckChange extends PlanItem {
+	identifier: number,
+	old_decks: string[],
+	new_deck: string
+}
+
+export interface TagChange extends PlanItem {
+	identifier: number,
+	old_tags: string[],
+	new_tags: string[]
+}
+
+export interface MediaUpload extends PlanItem {
+	link: string,
+	found: boolean
+}
+
+export interface ChangePlan {
+	additions: NoteAddition[],
+	updates: NoteUpdate[],
+	deletions: NoteDeletion[],
+	deck_changes: DeckChange[],
+	tag_changes: TagChange[],
+	media: MediaUpload[],
+	rewrites: string[]
+}
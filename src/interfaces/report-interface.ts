@@ -0,0 +1,40 @@
+export type NoteAction = "added" | "updated" | "deleted" | "skipped" | "failed"
+
+export interface NoteResult {
+	identifier: number | null,
+	action: NoteAction,
+	line: number | null
+}
+
+export interface ReportIssue {
+	//Lines are 1-based, and null when the problem isn't tied to a place in the file.
+	level: "error" | "warning",
+	path: string,
+	line: number | null,
+	message: string
+}
+
+export interface FileReport {
+	path: string,
+	notes: NoteResult[]
+}
+
+export interface SyncReport {
+	started: string,
+	finished: string | null,
+	result: string,
+	added: number,
+	updated: number,
+	deleted: number,
+	skipped: number,
+	failed: number,
+	files_scanned: number,
+	files_skipped: number,
+	files_excluded: string[],
+	// IDs written into files from the journal of an interrupted sync
+	recovered: string[],
+	files: FileReport[],
+	issues: ReportIssue[],
+	media_uploaded: string[],
+	media_missing: string[]
+}
@@ -1,5 +1,8 @@
 import { FIELDS_DICT } from './field-interface'
 import { AnkiConnectNote } from './note-interface'
+import { MediaKind } from '../format'
+import { Transclusion } from './transclusion-interface'
+import { TagMapping } from './tag-interface'
 
 export interface PluginSettings {
 	CUSTOM_REGEXPS: Record<string, string>,
@@ -7,6 +10,7 @@ export interface PluginSettings {
 	CONTEXT_FIELDS: Record<string, string>,
 	FOLDER_DECKS: Record<string, string>,
 	FOLDER_TAGS: Record<string, string>,
+	FOLDER_HEADINGS: Record<string, number>,
 	Syntax: {
 		"Begin Note": string,
 		"End Note": string,
@@ -15,7 +19,11 @@ export interface PluginSettings {
 		"Target Deck Line": string,
 		"File Tags Line": string,
 		"Delete Note Line": string,
-		"Frozen Fields Line": string
+		"Frozen Fields Line": string,
+		"Separator": string,
+		"Reversed Separator": string,
+		"Multi-line Separator": string,
+		"Callout Type": string
 	},
 	Defaults: {
 		"Tag": string,
@@ -26,7 +34,34 @@ export interface PluginSettings {
 		"CurlyCloze": boolean,
 		"CurlyCloze - Highlights to Clozes": boolean,
 		"ID Comments": boolean,
-		"Add Obsidian Tags": boolean
+		"Add Obsidian Tags": boolean,
+		"Two-Way Sync": boolean,
+		"Heading Note Type": string,
+		"Separator Syntax": boolean,
+		"Separator Note Type": string,
+		"Reversed Separator Note Type": string,
+		"Code Theme": string,
+		"Math Preamble": string,
+		"Note Types File": string
+	},
+	Transport: {
+		"Host": string,
+		"Port": number,
+		"Protocol": string,
+		"API Key": string,
+		"Timeout": number,
+		"Retries": number,
+		"Retry Backoff": number
+	},
+	"Media Types": Record<string, MediaKind>,
+	"Tag Mappings": TagMapping[],
+	"Excluded Paths": string[],
+	"Folder Hierarchy": {
+		"Mirror Folders": boolean,
+		"Root Deck": string,
+		"Skipped Folders": string,
+		"Strip Number Prefixes": boolean,
+		"Underscores to Spaces": boolean
 	}
 }
 
@@ -39,6 +74,10 @@ export interface FileData {
 	template: AnkiConnectNote
 	EXISTING_IDS: number[]
 	vault_name: string
+	media_paths: Record<string, string>
+	media_types: Record<string, MediaKind>
+	transclusions: Record<string, Transclusion>
+	tag_mappings: TagMapping[]
 
 	FROZEN_REGEXP: RegExp
 	DECK_REGEXP: RegExp
@@ -46,16 +85,30 @@ export interface FileData {
 	NOTE_REGEXP: RegExp
 	INLINE_REGEXP: RegExp
 	EMPTY_REGEXP: RegExp
+	SEPARATOR_REGEXP: RegExp | null
+	REVERSED_SEPARATOR_REGEXP: RegExp | null
+	MULTILINE_SEPARATOR_REGEXP: RegExp | null
+	CALLOUT_REGEXP: RegExp | null
 
 	curly_cloze: boolean
 	highlights_to_cloze: boolean
 	comment: boolean
 	add_context: boolean
+	add_file_link: boolean
 	add_obs_tags: boolean
+	two_way: boolean
+	heading_level: number
+	heading_note_type: string
+	separator_note_type: string
+	reversed_separator_note_type: string
 }
 
 export interface ParsedSettings extends FileData {
-    add_file_link: boolean
 	folder_decks: Record<string, string>
+	folder_hierarchy: PluginSettings["Folder Hierarchy"]
+	excluded_paths: string[]
 	folder_tags: Record<string, string>
+	folder_headings: Record<string, number>
+	code_theme: string
+	math_preamble: string
 }
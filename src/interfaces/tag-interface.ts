@@ -0,0 +1,8 @@
+export type TagAction = "rename" | "prefix" | "drop"
+
+export interface TagMapping {
+	//Applies to tag and the tags nested in it, or every tag if tag is *.
+	tag: string,
+	action: TagAction,
+	value: string
+}
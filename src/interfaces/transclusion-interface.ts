@@ -0,0 +1,12 @@
+export interface TranscludedLink {
+	//A link or embed inside transcluded text, rewritten to use the full vault path as the link.
+	original: string,
+	link: string,
+	displayText?: string
+}
+
+export interface Transclusion {
+	text: string,
+	embeds: TranscludedLink[],
+	links: TranscludedLink[]
+}
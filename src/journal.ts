@@ -0,0 +1,71 @@
+/*A write-ahead journal of the notes being added to Anki, so that their IDs aren't lost if the sync is interrupted.
+
+Entries are saved before the notes are added, given their IDs once Anki responds, and removed once the IDs are in their files.
+Anything left in the journal is recovered before the next scan.*/
+import { Md5 } from 'ts-md5/dist/md5'
+import * as AnkiConnect from './anki'
+import { AllFile } from './file'
+import { AnkiConnectNote, NoteState } from './interfaces/note-interface'
+import { JournalEntry } from './interfaces/journal-interface'
+
+const DAY_MS: number = 24 * 60 * 60 * 1000
+
+export function journalEntries(file: AllFile): JournalEntry[] {
+	/*Entries for the notes file is about to add.*/
+	const hash: string = Md5.hashStr(file.original_file) as string
+	const positions: number[] = file.getAddPositions()
+	const time: string = new Date().toISOString()
+	return file.all_notes_to_add.map((note, index) => ({
+		path: file.path,
+		index,
+		line: file.lineAt(positions[index]),
+		hash,
+		note,
+		identifier: null,
+		time
+	}))
+}
+
+export function sameNote(note: AnkiConnectNote, model_name: string, fields: Record<string, string>): boolean {
+	return note.modelName === model_name && Object.keys(note.fields).every(field => fields[field] === note.fields[field])
+}
+
+export async function findJournalNotes(journal: JournalEntry[], note_states: Record<number, NoteState>): Promise<Record<number, boolean>> {
+	/*Look up the notes of journal in Anki, by their ID if Anki gave one, or else by their fields among the notes added since.
+
+	Returns whether each note with an ID is still in Anki, after filling in the IDs that were found.*/
+	const since: number = Math.min(...journal.map(entry => Date.parse(entry.time)))
+	const days: number = Math.ceil((Date.now() - since) / DAY_MS) + 1
+	const unknown: JournalEntry[] = journal.filter(entry => entry.identifier === null)
+	const candidates: number[] = unknown.length ? (await AnkiConnect.invoke('findNotes', {query: "added:" + days}) as number[]).filter(
+		// Notes that are already synced can't be the lost ones
+		identifier => !(note_states.hasOwnProperty(identifier)) && !(journal.some(entry => entry.identifier === identifier))
+	) : []
+	const known: number[] = journal.filter(entry => entry.identifier !== null).map(entry => entry.identifier)
+	const infos = await AnkiConnect.invoke('notesInfo', {notes: known.concat(candidates)}) as Array<{
+		noteId?: number,
+		modelName: string,
+		fields: Record<string, {order: number, value: string}>
+	}>
+	let exists: Record<number, boolean> = {}
+	known.forEach((identifier, index) => exists[identifier] = infos[index].hasOwnProperty("noteId"))
+	let taken: Set<number> = new Set()
+	for (let entry of unknown) {
+		const match = infos.slice(known.length).find(info => {
+			if (!(info.noteId) || taken.has(info.noteId)) {
+				return false
+			}
+			let fields: Record<string, string> = {}
+			for (let field in info.fields) {
+				fields[field] = info.fields[field].value
+			}
+			return sameNote(entry.note, info.modelName, fields)
+		})
+		if (match) {
+			entry.identifier = match.noteId
+			exists[match.noteId] = true
+			taken.add(match.noteId)
+		}
+	}
+	return exists
+}
@@ -0,0 +1,174 @@
+/*Finding math in Obsidian markdown, and delivering a vault-wide macro preamble to Anki.
+
+Math follows the same rules as Obsidian: $$...$$ is display math, and $...$ is inline math if the opening $ is followed by
+a non-space, and the closing $ is after a non-space and not before a digit, so that "$5 and $10" isn't math.
+Escaped \$ is never a delimiter, \begin{env}...\end{env} is kept whole, and code is skipped.*/
+import { escapeRegex } from './constants'
+
+export interface TextToken {
+	kind: "inline" | "display" | "code",
+	start: number,
+	end: number,
+	//The math without its delimiters, or the code as it is.
+	content: string
+}
+
+const BEGIN_REGEXP: RegExp = /^\\begin\{([^}]+)\}/
+const BLANK_LINE_REGEXP: RegExp = /^\n[ \t]*\n/
+const TABLE_ROW_REGEXP: RegExp = /^[ \t]*\|/
+
+function environmentEnd(text: string, start: number): number {
+	//Index after the \end{} matching the \begin{} at start, or -1 if there isn't one.
+	const name: string = text.slice(start).match(BEGIN_REGEXP)[1]
+	const delimiters: RegExp = new RegExp(String.raw`\\(begin|end)\{` + escapeRegex(name) + String.raw`\}`, "g")
+	let depth: number = 0
+	for (let match of text.slice(start).matchAll(delimiters)) {
+		depth += match[1] === "begin" ? 1 : -1
+		if (depth === 0) {
+			return start + match.index + match[0].length
+		}
+	}
+	return -1
+}
+
+function mathEnd(text: string, start: number, inline: boolean): number {
+	//Index of the closing delimiter of math whose content starts at start, or -1 if it isn't closed.
+	let i: number = start
+	while (i < text.length) {
+		if (text.startsWith("\\begin{", i) && BEGIN_REGEXP.test(text.slice(i, i + 100))) {
+			const end: number = environmentEnd(text, i)
+			if (end !== -1) {
+				i = end
+				continue
+			}
+		}
+		if (text[i] === "\\") {
+			i += 2
+			continue
+		}
+		if (inline && BLANK_LINE_REGEXP.test(text.slice(i, i + 100))) {
+			return -1
+		}
+		if (inline && text[i] === "$") {
+			if (i > start && !(/\s/.test(text[i - 1])) && !(/\d/.test(text[i + 1] || ""))) {
+				return i
+			}
+		} else if (!(inline) && text.startsWith("$$", i)) {
+			return i
+		}
+		i++
+	}
+	return -1
+}
+
+function backtickRun(text: string, start: number): number {
+	let end: number = start
+	while (text[end] === "`") {
+		end++
+	}
+	return end - start
+}
+
+export function tokenise(text: string): TextToken[] {
+	//The math and code in text, in order.
+	let tokens: TextToken[] = []
+	let i: number = 0
+	while (i < text.length) {
+		const char: string = text[i]
+		if (char === "`") {
+			const run: number = backtickRun(text, i)
+			const fence: string = "`".repeat(run)
+			let close: number = text.indexOf(fence, i + run)
+			while (close !== -1 && backtickRun(text, close) !== run) {
+				close = text.indexOf(fence, close + backtickRun(text, close))
+			}
+			if (close === -1) {
+				i += run
+				continue
+			}
+			tokens.push({kind: "code", start: i, end: close + run, content: text.slice(i, close + run)})
+			i = close + run
+		} else if (char === "\\") {
+			i += 2
+		} else if (text.startsWith("$$", i)) {
+			const close: number = mathEnd(text, i + 2, false)
+			if (close === -1) {
+				i += 2
+				continue
+			}
+			tokens.push({kind: "display", start: i, end: close + 2, content: text.slice(i + 2, close)})
+			i = close + 2
+		} else if (char === "$" && i + 1 < text.length && !(/\s/.test(text[i + 1]))) {
+			const close: number = mathEnd(text, i + 1, true)
+			if (close === -1) {
+				i++
+				continue
+			}
+			tokens.push({kind: "inline", start: i, end: close + 1, content: text.slice(i + 1, close)})
+			i = close + 1
+		} else {
+			i++
+		}
+	}
+	return tokens
+}
+
+export function mathSpans(text: string): Array<[number, number]> {
+	return tokenise(text).filter(token => token.kind !== "code").map(token => [token.start, token.end])
+}
+
+export function obsidianToAnkiMath(text: string): string {
+	/*Rewrite Obsidian math in text with Anki's \(...\) and \[...\] delimiters.
+
+	Escaped dollars outside math and code become plain dollars, as Anki doesn't treat them as math.*/
+	let result: string = ""
+	let last: number = 0
+	const plain = (end: number): string => text.slice(last, end).replace(/\\\$/g, "$")
+	for (let token of tokenise(text)) {
+		result += plain(token.start)
+		if (token.kind === "code") {
+			result += token.content
+		} else {
+			let content: string = token.content
+			// Obsidian unescapes \| in table rows before rendering the math
+			const line_start: number = text.lastIndexOf("\n", token.start) + 1
+			if (TABLE_ROW_REGEXP.test(text.slice(line_start, token.start + 1))) {
+				content = content.replace(/\\\|/g, "|")
+			}
+			result += token.kind === "display" ? "\\[" + content + "\\]" : "\\(" + content + "\\)"
+		}
+		last = token.end
+	}
+	return result + plain(text.length)
+}
+
+export function hasMath(field: string): boolean {
+	return field.includes("\\(") || field.includes("\\[")
+}
+
+const PREAMBLE_START: string = "<!-- Obsidian_to_Anki math preamble -->"
+const PREAMBLE_END: string = "<!-- End of Obsidian_to_Anki math preamble -->"
+const PREAMBLE_BLOCK_REGEXP: RegExp = new RegExp(escapeRegex(PREAMBLE_START) + String.raw`[\s\S]*?` + escapeRegex(PREAMBLE_END) + String.raw`\n?`, "g")
+
+export function hasMathPreamble(template: string): boolean {
+	return template.includes(PREAMBLE_START)
+}
+
+export function keepMathPreamble(template: string, old_template: string): string {
+	//template, with the math preamble that was in old_template, if there was one.
+	const preambles: string[] | null = old_template.match(PREAMBLE_BLOCK_REGEXP)
+	const result: string = template.replace(PREAMBLE_BLOCK_REGEXP, "")
+	return preambles ? preambles[0] + result : result
+}
+
+export function withMathPreamble(template: string, preamble: string): string {
+	/*A card template, with the math preamble replaced by preamble, or removed if it's empty.
+
+	The preamble is typeset in a hidden element before the rest of the card, so MathJax knows its macros.*/
+	let result: string = template.replace(PREAMBLE_BLOCK_REGEXP, "")
+	if (preamble.trim()) {
+		result = PREAMBLE_START + '\n<div class="obsidian-to-anki-preamble" style="display: none;">\\(' +
+			preamble.trim().replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;") + "\\)</div>\n" + PREAMBLE_END + "\n" + result
+	}
+	return result
+}
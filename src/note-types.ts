@@ -0,0 +1,175 @@
+/*Note types defined in a vault file, which the plugin creates in Anki and keeps up to date.
+
+The file is JSON, with each note type's fields, card templates and CSS by its name:
+{"Obsidian Basic": {"fields": ["Front", "Back"], "templates": [{"name": "Card 1", "front": "{{Front}}", "back": "{{FrontSide}}<hr id=answer>{{Back}}"}], "css": ".card {}"}}
+
+A hash of the templates and CSS is kept for each note type, so that they're only pushed to Anki when they change.
+Fields and templates missing in Anki are added, but never removed, so no note loses its content.
+The code theme and math preamble the plugin puts in a note type are kept when it's updated.*/
+import { App } from 'obsidian'
+import { Md5 } from 'ts-md5/dist/md5'
+import * as AnkiConnect from './anki'
+import { keepCodeTheme } from './code-themes'
+import { keepMathPreamble } from './math'
+import { NoteTypeDefinition, NoteTypeSyncResult } from './interfaces/note-type-interface'
+
+function isStringArray(value: any): boolean {
+	return Array.isArray(value) && value.every(item => typeof item === "string")
+}
+
+function checkDefinition(name: string, definition: any): string[] {
+	/*Problems with definition, which are empty if it's valid.*/
+	if (definition === null || typeof definition !== "object") {
+		return [name + " isn't an object"]
+	}
+	let errors: string[] = []
+	if (!(isStringArray(definition.fields)) || !(definition.fields.length)) {
+		errors.push(name + " needs a list of field names")
+	}
+	if (!(Array.isArray(definition.templates)) || !(definition.templates.length)) {
+		errors.push(name + " needs a list of card templates")
+	} else if (!(definition.templates.every((template: any) => template && ["name", "front", "back"].every(key => typeof template[key] === "string")))) {
+		errors.push(name + " has a card template without a name, front and back")
+	}
+	if (definition.hasOwnProperty("css") && typeof definition.css !== "string") {
+		errors.push(name + " has CSS that isn't a string")
+	}
+	return errors
+}
+
+export function parseNoteTypes(text: string): [Record<string, NoteTypeDefinition>, string[]] {
+	/*The valid note types in text, and the problems with the rest.*/
+	let parsed: any
+	try {
+		parsed = JSON.parse(text)
+	} catch (e) {
+		return [{}, ["it isn't valid JSON (" + e.message + ")"]]
+	}
+	if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		return [{}, ["it should be an object of note types by name"]]
+	}
+	let definitions: Record<string, NoteTypeDefinition> = {}
+	let errors: string[] = []
+	for (let name in parsed) {
+		const definition_errors: string[] = checkDefinition(name, parsed[name])
+		if (definition_errors.length) {
+			errors.push(...definition_errors)
+			continue
+		}
+		definitions[name] = {
+			fields: parsed[name].fields,
+			templates: parsed[name].templates,
+			css: parsed[name].css || "",
+			cloze: parsed[name].cloze ? true : false
+		}
+	}
+	return [definitions, errors]
+}
+
+export async function loadNoteTypes(app: App, path: string): Promise<[Record<string, NoteTypeDefinition>, string[]]> {
+	if (!(path)) {
+		return [{}, []]
+	}
+	if (!(await app.vault.adapter.exists(path))) {
+		return [{}, ["couldn't find " + path]]
+	}
+	return parseNoteTypes(await app.vault.adapter.read(path))
+}
+
+export function definitionHash(definition: NoteTypeDefinition): string {
+	return Md5.hashStr(JSON.stringify({templates: definition.templates, css: definition.css})) as string
+}
+
+function ankiTemplate(template: NoteTypeDefinition["templates"][0]): Record<string, string> {
+	return {Name: template.name, Front: template.front, Back: template.back}
+}
+
+export async function syncNoteTypes(definitions: Record<string, NoteTypeDefinition>, pushed: Record<string, string>): Promise<NoteTypeSyncResult> {
+	/*Create the note types in definitions that aren't in Anki, and update the ones that have changed since they were pushed.
+
+	pushed is updated with the hash of each note type that's now up to date.*/
+	let result: NoteTypeSyncResult = {created: [], updated: [], errors: []}
+	const names: string[] = Object.keys(definitions)
+	if (!(names.length)) {
+		return result
+	}
+	const model_names = await AnkiConnect.invoke('modelNames') as string[]
+	const existing: string[] = names.filter(name => model_names.includes(name))
+	const existing_info = await AnkiConnect.invoke(
+		'multi', {actions: existing.flatMap(name => [AnkiConnect.modelFieldNames(name), AnkiConnect.modelTemplates(name), AnkiConnect.modelStyling(name)])}
+	) as any[]
+	let actions: AnkiConnect.AnkiConnectRequest[] = []
+	// The note type each action is for
+	let action_names: string[] = []
+	const add = (name: string, action: AnkiConnect.AnkiConnectRequest) => {
+		actions.push(action)
+		action_names.push(name)
+	}
+	for (let name of names) {
+		const definition: NoteTypeDefinition = definitions[name]
+		const index: number = existing.indexOf(name)
+		if (index === -1) {
+			add(name, AnkiConnect.createModel(name, definition.fields, definition.css, definition.cloze, definition.templates.map(ankiTemplate)))
+			result.created.push(name)
+			continue
+		}
+		let field_names: string[]
+		let old_templates: Record<string, Record<string, string>>
+		let old_css: string
+		try {
+			field_names = AnkiConnect.parse(existing_info[3 * index])
+			old_templates = AnkiConnect.parse(existing_info[3 * index + 1])
+			old_css = AnkiConnect.parse<{css: string}>(existing_info[3 * index + 2]).css
+		} catch (e) {
+			result.errors.push("Couldn't read " + name + " from Anki: " + e.message)
+			continue
+		}
+		const missing_fields: string[] = definition.fields.filter(field => !(field_names.includes(field)))
+		missing_fields.forEach(field => add(name, AnkiConnect.modelFieldAdd(name, field)))
+		if (pushed[name] === definitionHash(definition) && !(missing_fields.length)) {
+			continue
+		}
+		// Every template has the same preamble, so new templates get it from any of the old ones
+		const old_sides: string[] = Object.values(old_templates).map(sides => sides.Front)
+		const old_side: string = old_sides.length ? old_sides[0] : ""
+		let templates: Record<string, Record<string, string>> = {}
+		for (let template of definition.templates) {
+			if (old_templates.hasOwnProperty(template.name)) {
+				templates[template.name] = {
+					Front: keepMathPreamble(template.front, old_templates[template.name].Front),
+					Back: keepMathPreamble(template.back, old_templates[template.name].Back)
+				}
+			} else {
+				add(name, AnkiConnect.modelTemplateAdd(name, ankiTemplate({
+					name: template.name, front: keepMathPreamble(template.front, old_side), back: keepMathPreamble(template.back, old_side)
+				})))
+			}
+		}
+		if (Object.keys(templates).length) {
+			add(name, AnkiConnect.updateModelTemplates(name, templates))
+		}
+		add(name, AnkiConnect.updateModelStyling(name, keepCodeTheme(definition.css, old_css)))
+		result.updated.push(name)
+	}
+	if (!(actions.length)) {
+		return result
+	}
+	const responses = await AnkiConnect.invoke('multi', {actions: actions}) as any[]
+	let failed: Set<string> = new Set()
+	responses.forEach((response, index) => {
+		try {
+			AnkiConnect.parse(response)
+		} catch (e) {
+			result.errors.push("Couldn't update " + action_names[index] + " in Anki: " + e.message)
+			failed.add(action_names[index])
+		}
+	})
+	for (let name of names) {
+		if (!(failed.has(name)) && (result.created.includes(name) || result.updated.includes(name))) {
+			pushed[name] = definitionHash(definitions[name])
+		}
+	}
+	result.created = result.created.filter(name => !(failed.has(name)))
+	result.updated = result.updated.filter(name => !(failed.has(name)))
+	return result
+}
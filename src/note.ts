@@ -7,12 +7,12 @@ import { FormatConverter } from './format'
 import { AnkiConnectNote, AnkiConnectNoteAndID } from './interfaces/note-interface'
 import { FIELDS_DICT, FROZEN_FIELDS_DICT } from './interfaces/field-interface'
 import { FileData } from './interfaces/settings-interface'
+import { extractTags } from './tags'
 
 const TAG_PREFIX:string = "Tags: "
 export const TAG_SEP:string = " "
 export const ID_REGEXP_STR: string = String.raw`\n?(?:<!--)?(?:ID: (\d+).*)`
 export const TAG_REGEXP_STR: string = String.raw`(Tags: .*)`
-const OBS_TAG_REGEXP: RegExp = /#(\w+)/g
 
 const ANKI_CLOZE_REGEXP: RegExp = /{{c\d+::[\s\S]+?}}/
 export const CLOZE_ERROR: number = 42
@@ -48,6 +48,8 @@ abstract class AbstractNote {
     curly_cloze: boolean
 	highlights_to_cloze: boolean
 	no_note_type: boolean
+	// The fields as written in the file, before formatting
+	markdown_fields: Record<string, string>
 
     constructor(note_text: string, fields_dict: FIELDS_DICT, curly_cloze: boolean, highlights_to_cloze: boolean, formatter: FormatConverter) {
         this.text = note_text.trim()
@@ -86,6 +88,9 @@ abstract class AbstractNote {
 			return {note: template, identifier: NOTE_TYPE_ERROR}
 		}
         template["fields"] = this.getFields()
+		const base_fields: Record<string, string> = Object.assign({}, template["fields"])
+		// The tags taken out of each field, to put back if the field is pulled from Anki
+		let field_tags: Record<string, string[]> = {}
 		const file_link_fields = data.file_link_fields
         if (url) {
             this.formatter.format_note_with_url(template, url, file_link_fields[this.note_type])
@@ -99,15 +104,18 @@ abstract class AbstractNote {
 		}
 		if (data.add_obs_tags) {
 			for (let key in template["fields"]) {
-				for (let match of template["fields"][key].matchAll(OBS_TAG_REGEXP)) {
-					this.tags.push(match[1])
+				const [field, tags] = extractTags(template["fields"][key])
+				template["fields"][key] = field
+				if (base_fields.hasOwnProperty(key)) {
+					base_fields[key] = extractTags(base_fields[key])[0]
 				}
-				template["fields"][key] = template["fields"][key].replace(OBS_TAG_REGEXP, "")
+				field_tags[key] = tags
+				this.tags.push(...tags)
 	        }
 		}
         template["tags"].push(...this.tags)
         template["deckName"] = deck
-        return {note: template, identifier: this.identifier}
+        return {note: template, identifier: this.identifier, base_fields: base_fields, markdown_fields: this.markdown_fields, field_tags: field_tags}
     }
 
 }
@@ -159,7 +167,9 @@ export class Note extends AbstractNote {
             [line, this.current_field] = this.fieldFromLine(line)
             fields[this.current_field] += line + "\n"
         }
+        this.markdown_fields = {}
         for (let key in fields) {
+            this.markdown_fields[key] = fields[key].trim()
             fields[key] = this.formatter.format(
                 fields[key].trim(),
                 this.note_type.includes("Cloze") && this.curly_cloze,
@@ -221,7 +231,9 @@ export class InlineNote extends AbstractNote {
             }
             fields[this.current_field] += word + " "
         }
+        this.markdown_fields = {}
         for (let key in fields) {
+            this.markdown_fields[key] = fields[key].trim()
             fields[key] = this.formatter.format(
                 fields[key].trim(),
                 this.note_type.includes("Cloze") && this.curly_cloze,
@@ -234,6 +246,107 @@ export class InlineNote extends AbstractNote {
 
 }
 
+export class HeadingNote extends AbstractNote {
+    /*A note made from a heading and the section under it.
+
+    The note text is the note type, then the heading text, then an optional ID line and the section.*/
+
+    getSplitText(): string[] {
+        return this.text.split("\n")
+    }
+
+    getIdentifier(): number | null {
+        if (this.split_text.length > 2 && this.ID_REGEXP.test(this.split_text[2])) {
+            return parseInt(this.ID_REGEXP.exec(this.split_text.splice(2, 1)[0])[1])
+        } else {
+            return null
+        }
+    }
+
+    getTags(): string[] {
+        return []
+    }
+
+    getNoteType(): string {
+        return this.split_text[0]
+    }
+
+    getFields(): Record<string, string> {
+        let fields: Record<string, string> = {}
+        for (let field of this.field_names) {
+            fields[field] = ""
+        }
+        fields[this.field_names[0]] = this.split_text[1]
+        const body_field: string = this.field_names.length > 1 ? this.field_names[1] : this.field_names[0]
+        fields[body_field] += (body_field === this.field_names[0] ? "\n" : "") + this.split_text.slice(2).join("\n")
+        this.markdown_fields = {}
+        for (let key in fields) {
+            this.markdown_fields[key] = fields[key].trim()
+            fields[key] = this.formatter.format(
+                fields[key].trim(),
+                this.note_type.includes("Cloze") && this.curly_cloze,
+                this.highlights_to_cloze
+            ).trim()
+        }
+        return fields
+    }
+
+}
+
+export class SeparatorNote extends AbstractNote {
+    /*A note written as a question and an answer either side of a separator, like Question :: Answer.
+
+    The note text is the note type, the question, a SEPARATOR_LINE, then the answer with optional tags and ID lines.*/
+
+    static SEPARATOR_LINE: string = "\u0000"
+
+    getSplitText(): string[] {
+        return this.text.split("\n")
+    }
+
+    getIdentifier(): number | null {
+        if (this.ID_REGEXP.test(this.split_text[this.split_text.length-1])) {
+            return parseInt(this.ID_REGEXP.exec(this.split_text.pop())[1])
+        } else {
+            return null
+        }
+    }
+
+    getTags(): string[] {
+        if (this.split_text[this.split_text.length-1].startsWith(TAG_PREFIX)) {
+            return this.split_text.pop().slice(TAG_PREFIX.length).split(TAG_SEP)
+        } else {
+            return []
+        }
+    }
+
+    getNoteType(): string {
+        return this.split_text[0]
+    }
+
+    getFields(): Record<string, string> {
+        let fields: Record<string, string> = {}
+        for (let field of this.field_names) {
+            fields[field] = ""
+        }
+        const separator_index: number = this.split_text.indexOf(SeparatorNote.SEPARATOR_LINE)
+        const answer_field: string = this.field_names.length > 1 ? this.field_names[1] : this.field_names[0]
+        fields[this.field_names[0]] += this.split_text.slice(1, separator_index).join("\n") + "\n"
+        fields[answer_field] += this.split_text.slice(separator_index + 1).join("\n")
+        this.markdown_fields = {}
+        for (let key in fields) {
+            this.markdown_fields[key] = fields[key].trim()
+            fields[key] = this.formatter.format(
+                fields[key].trim(),
+                this.note_type.includes("Cloze") && this.curly_cloze,
+                this.highlights_to_cloze
+            ).trim()
+        }
+        return fields
+    }
+
+}
+
 export class RegexNote {
 
 	match: RegExpMatchArray
@@ -245,6 +358,7 @@ export class RegexNote {
 	curly_cloze: boolean
 	highlights_to_cloze: boolean
 	formatter: FormatConverter
+	markdown_fields: Record<string, string>
 
 	constructor(
 			match: RegExpMatchArray,
@@ -274,7 +388,9 @@ export class RegexNote {
 		for (let index in this.match.slice(1)) {
 			fields[this.field_names[index]] = this.match.slice(1)[index] ? this.match.slice(1)[index] : ""
 		}
+		this.markdown_fields = {}
 		for (let key in fields) {
+            this.markdown_fields[key] = fields[key].trim()
             fields[key] = this.formatter.format(
                 fields[key].trim(),
                 this.note_type.includes("Cloze") && this.curly_cloze,
@@ -288,6 +404,7 @@ export class RegexNote {
 		let template = JSON.parse(JSON.stringify(data.template))
 		template["modelName"] = this.note_type
 		template["fields"] = this.getFields()
+		const base_fields: Record<string, string> = Object.assign({}, template["fields"])
 		const file_link_fields = data.file_link_fields
 		if (url) {
             this.formatter.format_note_with_url(template, url, file_link_fields[this.note_type])
@@ -304,6 +421,6 @@ export class RegexNote {
 		}
 		template["tags"].push(...this.tags)
         template["deckName"] = deck
-		return {note: template, identifier: this.identifier}
+		return {note: template, identifier: this.identifier, base_fields: base_fields, markdown_fields: this.markdown_fields}
 	}
 }
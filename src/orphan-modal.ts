@@ -0,0 +1,80 @@
+/*Modal for deciding what to do with Anki notes whose source is gone from the vault.*/
+import { App, Modal, Setting } from 'obsidian'
+import { NoteState } from './interfaces/note-interface'
+
+export type OrphanChoice = "later" | "keep" | "delete" | "retag"
+
+const SUMMARY_LENGTH: number = 60
+
+export class OrphanModal extends Modal {
+	orphans: Array<[number, NoteState]>
+	choices: OrphanChoice[]
+	orphan_tag: string
+	on_apply: (orphans: Array<[number, NoteState]>, choices: OrphanChoice[]) => Promise<void>
+
+	constructor(app: App, orphans: Array<[number, NoteState]>, orphan_tag: string, on_apply: (orphans: Array<[number, NoteState]>, choices: OrphanChoice[]) => Promise<void>) {
+		super(app)
+		this.orphans = orphans
+		this.choices = orphans.map((): OrphanChoice => "later")
+		this.orphan_tag = orphan_tag
+		this.on_apply = on_apply
+	}
+
+	setup_orphan(identifier: number, state: NoteState, index: number) {
+		let {contentEl} = this
+		const first_field: string = (Object.values(state.fields)[0] || "").replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim()
+		new Setting(contentEl)
+			.setName("Note " + identifier.toString() + ": " + first_field.slice(0, SUMMARY_LENGTH))
+			.setDesc("Last synced from " + state.path)
+			.addDropdown(
+				dropdown => dropdown.addOption("later", "Decide later")
+				.addOption("keep", "Keep in Anki")
+				.addOption("delete", "Delete from Anki")
+				.addOption("retag", "Tag as " + this.orphan_tag)
+				.setValue(this.choices[index])
+				.onChange((value: OrphanChoice) => {
+					this.choices[index] = value
+				})
+			)
+	}
+
+	setup_set_all() {
+		let {contentEl} = this
+		new Setting(contentEl)
+			.setName("Set all")
+			.addDropdown(
+				dropdown => dropdown.addOption("later", "Decide later")
+				.addOption("keep", "Keep in Anki")
+				.addOption("delete", "Delete from Anki")
+				.addOption("retag", "Tag as " + this.orphan_tag)
+				.onChange((value: OrphanChoice) => {
+					this.choices = this.orphans.map((): OrphanChoice => value)
+					this.onClose()
+					this.onOpen()
+				})
+			)
+	}
+
+	onOpen() {
+		let {contentEl} = this
+		contentEl.createEl('h2', {text: 'Orphaned notes'})
+		contentEl.createEl('p', {text: "These notes were synced from files, but can no longer be found in the vault. Notes kept in Anki won't be reported again."})
+		this.setup_set_all()
+		this.orphans.forEach(([identifier, state], index) => this.setup_orphan(identifier, state, index))
+		new Setting(contentEl)
+			.addButton(
+				button => {
+					button.setButtonText("Apply").setClass("mod-cta")
+					.onClick(async () => {
+						this.close()
+						await this.on_apply(this.orphans, this.choices)
+					})
+				}
+			)
+	}
+
+	onClose() {
+		let {contentEl} = this
+		contentEl.empty()
+	}
+}
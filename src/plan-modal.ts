@@ -0,0 +1,125 @@
+/*Modal for reviewing a change plan before it is sent to Anki.*/
+import { App, Modal, Setting } from 'obsidian'
+import { ChangePlan, PlanItem, NoteUpdate } from './interfaces/plan-interface'
+
+const SUMMARY_LENGTH: number = 60
+
+function summarise(text: string): string {
+	const stripped: string = text.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim()
+	return stripped.length > SUMMARY_LENGTH ? stripped.slice(0, SUMMARY_LENGTH) + "..." : stripped
+}
+
+export class ChangePlanModal extends Modal {
+	plan: ChangePlan
+	on_apply: (plan: ChangePlan) => Promise<void>
+
+	constructor(app: App, plan: ChangePlan, on_apply: (plan: ChangePlan) => Promise<void>) {
+		super(app)
+		this.plan = plan
+		this.on_apply = on_apply
+	}
+
+	setup_section<T extends PlanItem>(title: string, items: T[], describe: (item: T) => string, details?: (item: T) => string[]) {
+		let {contentEl} = this
+		if (!(items.length)) {
+			return
+		}
+		contentEl.createEl('h3', {text: title + " (" + items.length.toString() + ")"})
+		for (let item of items) {
+			let item_setting = new Setting(contentEl)
+				.setName(describe(item))
+				.setDesc(item.path)
+				.addToggle(
+					toggle => toggle.setValue(item.selected)
+					.onChange((value) => {
+						item.selected = value
+					})
+				)
+			if (details) {
+				for (let line of details(item)) {
+					item_setting.descEl.createEl('pre', {text: line, cls: "anki-plan-detail"})
+				}
+			}
+		}
+	}
+
+	setup_rewrites() {
+		let {contentEl} = this
+		if (!(this.plan.rewrites.length)) {
+			return
+		}
+		contentEl.createEl('h3', {text: "Files to be rewritten (" + this.plan.rewrites.length.toString() + ")"})
+		contentEl.createEl('p', {text: "Files are rewritten to insert IDs of new notes and remove deletion lines."})
+		let list = contentEl.createEl('ul')
+		for (let path of this.plan.rewrites) {
+			list.createEl('li', {text: path})
+		}
+	}
+
+	setup_buttons() {
+		let {contentEl} = this
+		new Setting(contentEl)
+			.addButton(
+				button => {
+					button.setButtonText("Apply").setClass("mod-cta")
+					.onClick(async () => {
+						this.close()
+						await this.on_apply(this.plan)
+					})
+				}
+			)
+			.addButton(
+				button => {
+					button.setButtonText("Cancel")
+					.onClick(() => this.close())
+				}
+			)
+	}
+
+	onOpen() {
+		let {contentEl} = this
+		const plan = this.plan
+		contentEl.createEl('h2', {text: 'Scan preview'})
+		const empty: boolean = [
+			plan.additions, plan.updates, plan.deletions, plan.deck_changes, plan.tag_changes, plan.media
+		].every(items => items.length == 0)
+		if (empty) {
+			contentEl.createEl('p', {text: "No changes to sync."})
+		}
+		this.setup_section(
+			"Notes to add", plan.additions,
+			item => item.note.modelName + " in " + item.note.deckName + ": " + summarise(Object.values(item.note.fields)[0] || "")
+		)
+		this.setup_section(
+			"Notes to update", plan.updates,
+			item => "Note " + item.identifier.toString(),
+			(item: NoteUpdate) => item.diffs.map(
+				diff => diff.field + ": " + summarise(diff.old_value) + " -> " + summarise(diff.new_value)
+			)
+		)
+		this.setup_section(
+			"Notes to delete", plan.deletions,
+			item => "Note " + item.identifier.toString()
+		)
+		this.setup_section(
+			"Decks to change", plan.deck_changes,
+			item => "Note " + item.identifier.toString() + ": " + item.old_decks.join(", ") + " -> " + item.new_deck
+		)
+		this.setup_section(
+			"Tags to change", plan.tag_changes,
+			item => "Note " + item.identifier.toString(),
+			item => [item.old_tags.join(" ") + " -> " + item.new_tags.join(" ")]
+		)
+		this.setup_section(
+			"Media to upload", plan.media,
+			item => item.found ? item.link : item.link + " (not found in vault)"
+		)
+		this.setup_rewrites()
+		this.setup_buttons()
+	}
+
+	onClose() {
+		let {contentEl} = this
+		contentEl.empty()
+	}
+}
@@ -0,0 +1,115 @@
+/*Modal for showing the report of the last sync, with links to where problems were found.*/
+import { App, Modal, Setting, TFile } from 'obsidian'
+import { SyncReport, ReportIssue, FileReport } from './interfaces/report-interface'
+
+function location(path: string, line: number | null): string {
+	return line === null ? path : path + ":" + line.toString()
+}
+
+export class SyncReportModal extends Modal {
+	report: SyncReport | null
+
+	constructor(app: App, report: SyncReport | null) {
+		super(app)
+		this.report = report
+	}
+
+	async openLocation(path: string, line: number | null) {
+		const file = this.app.vault.getAbstractFileByPath(path)
+		if (!(file instanceof TFile)) {
+			return
+		}
+		this.close()
+		// eState lines are 0-based
+		await this.app.workspace.getLeaf().openFile(file, line === null ? {} : {eState: {line: line - 1}})
+	}
+
+	setup_summary() {
+		let {contentEl} = this
+		const report = this.report
+		contentEl.createEl('p', {
+			text: "Started " + new Date(report.started).toLocaleString() + ", " + (
+				report.finished ? "finished " + new Date(report.finished).toLocaleString() : "didn't finish"
+			) + " (" + report.result + ")."
+		})
+		let list = contentEl.createEl('ul')
+		list.createEl('li', {
+			text: "Files scanned: " + report.files_scanned.toString() + ", unchanged or skipped: " + report.files_skipped.toString() +
+			", excluded: " + (report.files_excluded || []).length.toString()
+		})
+		list.createEl('li', {
+			text: "Notes added: " + report.added.toString() + ", updated: " + report.updated.toString() +
+			", deleted: " + report.deleted.toString() + ", skipped: " + report.skipped.toString() + ", failed: " + report.failed.toString()
+		})
+		list.createEl('li', {text: "Media uploaded: " + report.media_uploaded.length.toString() + ", missing: " + report.media_missing.length.toString()})
+	}
+
+	setup_issue(issue: ReportIssue) {
+		let {contentEl} = this
+		let issue_setting = new Setting(contentEl)
+			.setName((issue.level === "error" ? "Error: " : "Warning: ") + issue.message)
+			.setDesc(location(issue.path, issue.line))
+		if (this.app.vault.getAbstractFileByPath(issue.path) instanceof TFile) {
+			issue_setting.addButton(
+				button => button.setButtonText("Open")
+				.onClick(async () => await this.openLocation(issue.path, issue.line))
+			)
+		}
+	}
+
+	setup_file(file_report: FileReport) {
+		let {contentEl} = this
+		const counts: Record<string, number> = {}
+		for (let note of file_report.notes) {
+			counts[note.action] = (counts[note.action] || 0) + 1
+		}
+		let file_setting = new Setting(contentEl)
+			.setName(file_report.path)
+			.setDesc(Object.keys(counts).map(action => counts[action].toString() + " " + action).join(", "))
+		for (let note of file_report.notes) {
+			const identifier: string = note.identifier === null ? "new note" : "note " + note.identifier.toString()
+			const prefix: string = note.line === null ? "" : "Line " + note.line.toString() + ": "
+			file_setting.descEl.createEl('pre', {text: prefix + identifier + " " + note.action, cls: "anki-plan-detail"})
+		}
+	}
+
+	onOpen() {
+		let {contentEl} = this
+		contentEl.createEl('h2', {text: 'Last sync report'})
+		if (!(this.report)) {
+			contentEl.createEl('p', {text: "No sync has been run yet."})
+			return
+		}
+		this.setup_summary()
+		if (this.report.issues.length) {
+			contentEl.createEl('h3', {text: "Problems (" + this.report.issues.length.toString() + ")"})
+			this.report.issues.forEach(issue => this.setup_issue(issue))
+		}
+		// Reports from before the sync journal don't list recovered IDs
+		if (this.report.recovered && this.report.recovered.length) {
+			contentEl.createEl('h3', {text: "Recovered from an interrupted sync (" + this.report.recovered.length.toString() + ")"})
+			let list = contentEl.createEl('ul')
+			this.report.recovered.forEach(recovered => list.createEl('li', {text: recovered}))
+		}
+		if (this.report.files.length) {
+			contentEl.createEl('h3', {text: "Files (" + this.report.files.length.toString() + ")"})
+			this.report.files.forEach(file_report => this.setup_file(file_report))
+		}
+		// Reports from before exclusions don't list excluded files
+		if (this.report.files_excluded && this.report.files_excluded.length) {
+			contentEl.createEl('h3', {text: "Excluded files (" + this.report.files_excluded.length.toString() + ")"})
+			let list = contentEl.createEl('ul')
+			this.report.files_excluded.forEach(path => list.createEl('li', {text: path}))
+		}
+		if (this.report.media_missing.length) {
+			contentEl.createEl('h3', {text: "Missing media (" + this.report.media_missing.length.toString() + ")"})
+			let list = contentEl.createEl('ul')
+			this.report.media_missing.forEach(link => list.createEl('li', {text: link}))
+		}
+	}
+
+	onClose() {
+		let {contentEl} = this
+		contentEl.empty()
+	}
+}
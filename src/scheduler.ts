@@ -0,0 +1,94 @@
+/*Runs scans of the vault in the background, and shows their status in the status bar.*/
+import { Plugin } from 'obsidian'
+
+export type ScanResult = "success" | "unreachable" | "busy" | "failed" | "cancelled" | "previewed"
+
+// The most scheduled runs skipped in a row while Anki can't be reached.
+const MAX_SKIPPED_RUNS: number = 8
+
+function timeString(date: Date): string {
+	return date.toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})
+}
+
+export class SyncScheduler {
+	plugin: Plugin
+	scan: (quiet: boolean) => Promise<ScanResult>
+	status_el: HTMLElement
+	interval_id: number | null
+	failures: number
+	runs_to_skip: number
+	last_sync: Date | null
+
+	constructor(plugin: Plugin, scan: (quiet: boolean) => Promise<ScanResult>) {
+		this.plugin = plugin
+		this.scan = scan
+		this.status_el = plugin.addStatusBarItem()
+		this.interval_id = null
+		this.failures = 0
+		this.runs_to_skip = 0
+		this.last_sync = null
+		this.setStatus("Anki: not synced yet")
+	}
+
+	setInterval(minutes: number) {
+		/*(Re)start scheduled scans every minutes, or stop them if minutes is 0.*/
+		if (this.interval_id !== null) {
+			window.clearInterval(this.interval_id)
+			this.interval_id = null
+		}
+		this.failures = 0
+		this.runs_to_skip = 0
+		if (minutes > 0) {
+			this.interval_id = window.setInterval(async () => await this.run(), minutes * 1000 * 60)
+			this.plugin.registerInterval(this.interval_id)
+		}
+	}
+
+	async run() {
+		if (this.runs_to_skip > 0) {
+			// Backing off, since Anki wasn't reachable last time
+			this.runs_to_skip -= 1
+			return
+		}
+		await this.scan(true)
+	}
+
+	setStatus(text: string) {
+		this.status_el.setText(text)
+	}
+
+	setRunning() {
+		this.setStatus("Anki: syncing...")
+	}
+
+	setProgress(done: number, total: number) {
+		this.setStatus("Anki: syncing file " + done + "/" + total)
+	}
+
+	recordResult(result: ScanResult) {
+		const now = new Date()
+		switch (result) {
+			case "success":
+				this.failures = 0
+				this.last_sync = now
+				this.setStatus("Anki: synced at " + timeString(now))
+				break
+			case "unreachable":
+				this.failures += 1
+				this.runs_to_skip = Math.min(2 ** (this.failures - 1) - 1, MAX_SKIPPED_RUNS)
+				this.setStatus("Anki: not reachable at " + timeString(now) + (this.last_sync ? ", last synced at " + timeString(this.last_sync) : ""))
+				break
+			case "failed":
+				this.setStatus("Anki: sync failed at " + timeString(now) + ", check console")
+				break
+			case "cancelled":
+				this.setStatus("Anki: sync cancelled at " + timeString(now))
+				break
+			case "previewed":
+				this.setStatus("Anki: changes previewed at " + timeString(now))
+				break
+			case "busy":
+				break
+		}
+	}
+}
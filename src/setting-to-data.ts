@@ -3,18 +3,55 @@ import { App } from 'obsidian'
 import * as AnkiConnect from './anki'
 import { ID_REGEXP_STR } from './note'
 import { escapeRegex } from './constants'
+import { DEFAULT_CODE_THEME } from './code-themes'
+import { DEFAULT_FOLDER_HIERARCHY } from './files-manager'
+
+function separatorRegExp(separator: string | undefined): RegExp | null {
+    /*Matches Question :: Answer on a single line, with an optional ID line after it.
+
+    Groups are any list marker, the question, the separator with its spacing, the answer and the ID.*/
+    if (!(separator)) {
+        return null
+    }
+    return new RegExp(
+        String.raw`^([ \t]*(?:[-*+][ \t]+|\d+\.[ \t]+)?)(\S.*?)([ \t]+` + escapeRegex(separator) + String.raw`[ \t]+)(\S.*?)[ \t]*(?:\n(?:<!--)?ID: (\d+).*)?$`,
+        "gm"
+    )
+}
+
+function multilineSeparatorRegExp(separator: string | undefined): RegExp | null {
+    /*Matches lines of question, a line with just the separator, then lines of answer, up to a blank line.
+
+    The question starts after the last blank line, heading or ID line before the separator.
+    Groups are the question and the answer, which includes any ID line.*/
+    if (!(separator)) {
+        return null
+    }
+    return new RegExp(
+        String.raw`^((?:(?!#{1,6}(?:[ \t]|$)|(?:<!--)?ID: \d)[^\n]*\S[^\n]*\n)+?)[ \t]*` + escapeRegex(separator) + String.raw`[ \t]*\n((?:[^\n]*\S[^\n]*(?:\n|$))+)`,
+        "gm"
+    )
+}
 
 export async function settingToData(app: App, settings: PluginSettings, fields_dict: Record<string, string[]>): Promise<ParsedSettings> {
     let result: ParsedSettings = <ParsedSettings>{}
 
     //Some processing required
     result.vault_name = app.vault.getName()
+    // Filled in for each file
+    result.media_paths = {}
+    result.transclusions = {}
     result.fields_dict = fields_dict
     result.custom_regexps = settings.CUSTOM_REGEXPS
     result.file_link_fields = settings.FILE_LINK_FIELDS
     result.context_fields = settings.CONTEXT_FIELDS
     result.folder_decks = settings.FOLDER_DECKS
+    result.folder_hierarchy = settings["Folder Hierarchy"] || DEFAULT_FOLDER_HIERARCHY
+    result.excluded_paths = settings["Excluded Paths"] || []
     result.folder_tags = settings.FOLDER_TAGS
+    result.folder_headings = settings.FOLDER_HEADINGS
+    result.media_types = settings["Media Types"]
+    result.tag_mappings = settings["Tag Mappings"] || []
     result.template = {
         deckName: settings.Defaults.Deck,
         modelName: "",
@@ -34,6 +71,14 @@ export async function settingToData(app: App, settings: PluginSettings, fields_d
     result.NOTE_REGEXP = new RegExp(String.raw`^` + escapeRegex(settings.Syntax["Begin Note"]) + String.raw`\n([\s\S]*?\n)` + escapeRegex(settings.Syntax["End Note"]), "gm")
     result.INLINE_REGEXP = new RegExp(escapeRegex(settings.Syntax["Begin Inline Note"]) + String.raw`(.*?)` + escapeRegex(settings.Syntax["End Inline Note"]), "g")
     result.EMPTY_REGEXP = new RegExp(escapeRegex(settings.Syntax["Delete Note Line"]) + ID_REGEXP_STR, "g")
+    // Callouts of the callout type, with the note type as the title and the note in the quoted lines after it
+    result.CALLOUT_REGEXP = settings.Syntax["Callout Type"] ? new RegExp(
+        String.raw`^>[ \t]*\[!` + escapeRegex(settings.Syntax["Callout Type"]) + String.raw`\][-+]?[ \t]*(.*)\n((?:>.*(?:\n|$))*)`, "gmi"
+    ) : null
+    const separator_syntax: boolean = settings.Defaults["Separator Syntax"] ? true : false
+    result.SEPARATOR_REGEXP = separator_syntax ? separatorRegExp(settings.Syntax["Separator"]) : null
+    result.REVERSED_SEPARATOR_REGEXP = separator_syntax ? separatorRegExp(settings.Syntax["Reversed Separator"]) : null
+    result.MULTILINE_SEPARATOR_REGEXP = separator_syntax ? multilineSeparatorRegExp(settings.Syntax["Multi-line Separator"]) : null
 
     //Just a simple transfer
     result.curly_cloze = settings.Defaults.CurlyCloze
@@ -42,6 +87,14 @@ export async function settingToData(app: App, settings: PluginSettings, fields_d
     result.comment = settings.Defaults["ID Comments"]
     result.add_context = settings.Defaults["Add Context"]
     result.add_obs_tags = settings.Defaults["Add Obsidian Tags"]
+    result.two_way = settings.Defaults["Two-Way Sync"]
+    result.heading_note_type = settings.Defaults["Heading Note Type"] || "Basic"
+    result.separator_note_type = settings.Defaults["Separator Note Type"] || "Basic"
+    result.reversed_separator_note_type = settings.Defaults["Reversed Separator Note Type"] || "Basic (and reversed card)"
+    result.code_theme = settings.Defaults["Code Theme"] || DEFAULT_CODE_THEME
+    result.math_preamble = settings.Defaults["Math Preamble"] || ""
+    // Set for each file from its folder and frontmatter
+    result.heading_level = 0
 
     return result
 }
@@ -1,5 +1,8 @@
 import { PluginSettingTab, Setting, Notice, TFolder } from 'obsidian'
 import * as AnkiConnect from './anki'
+import { CODE_THEMES, DEFAULT_CODE_THEME, NO_CODE_THEME } from './code-themes'
+import { ALL_TAGS } from './tags'
+import { parseExclusions } from './exclude'
 
 const defaultDescs = {
 	"Tag": "The tag that the plugin automatically adds to any generated cards.",
@@ -10,7 +13,33 @@ const defaultDescs = {
 	"CurlyCloze": "Convert {cloze deletions} -> {{c1::cloze deletions}} on note types that have a 'Cloze' in their name.",
 	"CurlyCloze - Highlights to Clozes": "Convert ==highlights== -> {highlights} to be processed by CurlyCloze.",
 	"ID Comments": "Wrap note IDs in a HTML comment.",
-	"Add Obsidian Tags": "Interpret #tags in the fields of a note as Anki tags, removing them from the note text in Anki."
+	"Add Obsidian Tags": "Interpret #tags in the fields of a note as Anki tags, removing them from the note text in Anki.",
+	"Two-Way Sync": "Pull edits made to note fields in Anki back into the file, if the note hasn't changed in the file since the last sync.",
+	"Separator Syntax": "Make notes from Question :: Answer and Question ::: Answer lines, and from lines of question and answer either side of a ? line. The separators can be changed in the syntax settings.",
+	"Separator Note Type": "The note type of notes made with the separator syntax.",
+	"Reversed Separator Note Type": "The note type of notes made with the reversed separator syntax.",
+	"Heading Note Type": "The note type of cards made from headings, in folders with heading cards turned on. The heading goes in the first field, and the text under it in the second.",
+	"Code Theme": "The highlighting theme for code blocks. It's added to the styling of note types with code in them, so works offline.",
+	"Math Preamble": "Path to a file in the vault with \\newcommand and other MathJax macros, like preamble.sty. It's added to the card templates of note types with math in them. Leave blank for no preamble.",
+	"Note Types File": "Path to a JSON file in the vault defining note types for the plugin to create in Anki, and keep up to date when their templates or CSS change. Leave blank to only use note types made in Anki."
+}
+
+const folderHierarchyDescs = {
+	"Mirror Folders": "Put each file in a deck named after its folders, like Root::Subject::Chapter. Folder decks in the folder table override this for their folder and the folders in it.",
+	"Root Deck": "The deck the folder decks are made inside. Leave blank to start from the top-level folders.",
+	"Skipped Folders": "Folders, by name or path and separated by commas, to leave out of deck names.",
+	"Strip Number Prefixes": "Remove numbers used for ordering from the start of folder names, so '01 - Algebra' becomes 'Algebra'.",
+	"Underscores to Spaces": "Replace underscores in folder names with spaces."
+}
+
+const transportDescs = {
+	"Host": "The host AnkiConnect is listening on.",
+	"Port": "The port AnkiConnect is listening on.",
+	"Protocol": "Whether to connect to AnkiConnect over http or https.",
+	"API Key": "The API key set in the AnkiConnect config. Leave blank if AnkiConnect doesn't require one.",
+	"Timeout": "The time, in seconds, to wait for Anki to respond to a request. Set this to 0 to wait indefinitely.",
+	"Retries": "How many times to retry a request if Anki can't be reached.",
+	"Retry Backoff": "The time, in milliseconds, to wait before the first retry. This doubles after each retry."
 }
 
 export class SettingsTab extends PluginSettingTab {
@@ -186,12 +215,55 @@ export class SettingsTab extends PluginSettingTab {
 		if (!(plugin.settings["Defaults"].hasOwnProperty("Add Obsidian Tags"))) {
 			plugin.settings["Defaults"]["Add Obsidian Tags"] = false
 		}
+		// To account for new two-way sync
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Two-Way Sync"))) {
+			plugin.settings["Defaults"]["Two-Way Sync"] = false
+		}
+		// To account for new heading cards
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Heading Note Type"))) {
+			plugin.settings["Defaults"]["Heading Note Type"] = "Basic"
+		}
+		// To account for new separator syntax
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Separator Syntax"))) {
+			plugin.settings["Defaults"]["Separator Syntax"] = false
+			plugin.settings["Defaults"]["Separator Note Type"] = "Basic"
+			plugin.settings["Defaults"]["Reversed Separator Note Type"] = "Basic (and reversed card)"
+		}
+		// To account for new code themes
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Code Theme"))) {
+			plugin.settings["Defaults"]["Code Theme"] = DEFAULT_CODE_THEME
+		}
+		// To account for new math preamble
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Math Preamble"))) {
+			plugin.settings["Defaults"]["Math Preamble"] = ""
+		}
+		// To account for new note types file
+		if (!(plugin.settings["Defaults"].hasOwnProperty("Note Types File"))) {
+			plugin.settings["Defaults"]["Note Types File"] = ""
+		}
 		for (let key of Object.keys(plugin.settings["Defaults"])) {
 			// To account for removal of regex setting
 			if (key === "Regex") {
 				continue
 			}
-			if (typeof plugin.settings["Defaults"][key] === "string") {
+			if (key === "Code Theme") {
+				new Setting(defaults_settings)
+					.setName(key)
+					.setDesc(defaultDescs[key])
+					.addDropdown(
+						dropdown => {
+							dropdown.addOption(NO_CODE_THEME, NO_CODE_THEME)
+							for (let theme of Object.keys(CODE_THEMES)) {
+								dropdown.addOption(theme, theme)
+							}
+							dropdown.setValue(plugin.settings["Defaults"][key])
+							.onChange((value) => {
+								plugin.settings["Defaults"][key] = value
+								plugin.saveAllData()
+							})
+						}
+					)
+			} else if (typeof plugin.settings["Defaults"][key] === "string") {
 				new Setting(defaults_settings)
 					.setName(key)
 					.setDesc(defaultDescs[key])
@@ -225,13 +297,7 @@ export class SettingsTab extends PluginSettingTab {
 							.onChange(async (value) => {
 								plugin.settings["Defaults"][key] = value
 								await plugin.saveAllData()
-								if (plugin.hasOwnProperty("schedule_id")) {
-									window.clearInterval(plugin.schedule_id)
-								}
-								if (value != 0) {
-									plugin.schedule_id = window.setInterval(async () => await plugin.scanVault(), value * 1000 * 60)
-									plugin.registerInterval(plugin.schedule_id)
-								}
+								plugin.scheduler.setInterval(value)
 
 							})
 					}
@@ -240,6 +306,220 @@ export class SettingsTab extends PluginSettingTab {
 		}
 	}
 
+	setup_tag_mappings() {
+		let {containerEl} = this;
+		const plugin = (this as any).plugin
+		let mapping_settings = containerEl.createEl('h3', {text: 'Tag Mappings'})
+		mapping_settings.createEl('p', {
+			text: "Changes made to tags before they're added in Anki, in order. Each mapping applies to a tag and the tags nested in it, " +
+			"or to every tag if the tag is " + ALL_TAGS + ". Only the first mapping that applies to a tag is used."
+		})
+		plugin.settings["Tag Mappings"].forEach((mapping: any, index: number) => {
+			let mapping_setting = new Setting(mapping_settings)
+				.addText(
+					text => text.setPlaceholder("Tag").setValue(mapping.tag)
+					.onChange((value) => {
+						mapping.tag = value.trim()
+						plugin.saveAllData()
+					})
+				)
+				.addDropdown(
+					dropdown => dropdown.addOption("rename", "Rename to").addOption("prefix", "Nest under").addOption("drop", "Drop")
+					.setValue(mapping.action)
+					.onChange(async (value) => {
+						mapping.action = value
+						await plugin.saveAllData()
+						this.setup_display()
+					})
+				)
+			if (mapping.action !== "drop") {
+				mapping_setting.addText(
+					text => text.setPlaceholder("Tag").setValue(mapping.value)
+					.onChange((value) => {
+						mapping.value = value.trim()
+						plugin.saveAllData()
+					})
+				)
+			}
+			mapping_setting.addExtraButton(
+				button => button.setIcon("cross").setTooltip("Remove")
+				.onClick(async () => {
+					plugin.settings["Tag Mappings"].splice(index, 1)
+					await plugin.saveAllData()
+					this.setup_display()
+				})
+			)
+		})
+		new Setting(mapping_settings)
+			.setName("Add Tag Mapping")
+			.addButton(
+				button => {
+					button.setButtonText("Add").setClass("mod-cta")
+					.onClick(async () => {
+						plugin.settings["Tag Mappings"].push({tag: "", action: "rename", value: ""})
+						await plugin.saveAllData()
+						this.setup_display()
+					})
+				}
+			)
+	}
+
+	setup_exclusions() {
+		let {containerEl} = this;
+		const plugin = (this as any).plugin
+		let exclusion_settings = containerEl.createEl('h3', {text: 'Exclusions'})
+		new Setting(exclusion_settings)
+			.setName("Excluded Paths")
+			.setDesc(
+				"Folders, files and glob patterns to leave out of scans, one per line, e.g. Templates or **/Archive/**. " +
+				"Files can also be left out with anki-exclude: true in their frontmatter. Notes from excluded files are left as they are in Anki."
+			)
+			.addTextArea(
+				text => text.setPlaceholder("Templates").setValue(plugin.settings["Excluded Paths"].join("\n"))
+				.onChange((value) => {
+					plugin.settings["Excluded Paths"] = parseExclusions(value)
+					plugin.saveAllData()
+				})
+			)
+	}
+
+	setup_folder_hierarchy() {
+		let {containerEl} = this;
+		const plugin = (this as any).plugin
+		let hierarchy_settings = containerEl.createEl('h3', {text: 'Folder Hierarchy Decks'})
+		for (let key of Object.keys(plugin.settings["Folder Hierarchy"])) {
+			let setting = new Setting(hierarchy_settings)
+				.setName(key)
+				.setDesc(folderHierarchyDescs[key])
+			if (typeof plugin.settings["Folder Hierarchy"][key] === "boolean") {
+				setting.addToggle(
+					toggle => toggle.setValue(plugin.settings["Folder Hierarchy"][key])
+					.onChange((value) => {
+						plugin.settings["Folder Hierarchy"][key] = value
+						plugin.saveAllData()
+					})
+				)
+			} else {
+				setting.addText(
+					text => text.setValue(plugin.settings["Folder Hierarchy"][key])
+					.onChange((value) => {
+						plugin.settings["Folder Hierarchy"][key] = value
+						plugin.saveAllData()
+					})
+				)
+			}
+		}
+	}
+
+	setup_transport() {
+		let {containerEl} = this;
+		const plugin = (this as any).plugin
+		let transport_settings = containerEl.createEl('h3', {text: 'AnkiConnect Settings'})
+		for (let key of Object.keys(plugin.settings["Transport"])) {
+			let setting = new Setting(transport_settings)
+				.setName(key)
+				.setDesc(transportDescs[key])
+			if (key === "Protocol") {
+				setting.addDropdown(
+					dropdown => dropdown.addOption("http", "http").addOption("https", "https")
+					.setValue(plugin.settings["Transport"][key])
+					.onChange((value) => {
+						plugin.settings["Transport"][key] = value
+						plugin.saveAllData()
+					})
+				)
+			} else if (typeof plugin.settings["Transport"][key] === "number") {
+				setting.addText(
+					text => text.setValue(plugin.settings["Transport"][key].toString())
+					.onChange((value) => {
+						const parsed = parseInt(value)
+						if (!(isNaN(parsed)) && parsed >= 0) {
+							plugin.settings["Transport"][key] = parsed
+							plugin.saveAllData()
+						}
+					})
+				)
+			} else {
+				setting.addText(
+					text => text.setValue(plugin.settings["Transport"][key])
+					.onChange((value) => {
+						plugin.settings["Transport"][key] = value.trim()
+						plugin.saveAllData()
+					})
+				)
+			}
+		}
+		new Setting(transport_settings)
+			.setName("Test Connection")
+			.setDesc("Check that AnkiConnect can be reached with the settings above.")
+			.addButton(
+				button => {
+					button.setButtonText("Test").setClass("mod-cta")
+					.onClick(async () => {
+						try {
+							const version = await AnkiConnect.invoke('version') as number
+							new Notice("Connected to AnkiConnect version " + version.toString() + "!")
+						} catch(e) {
+							console.error(e)
+							new Notice("Couldn't connect to Anki at " + AnkiConnect.getUrl() + ": " + e.message)
+						}
+					})
+				}
+			)
+	}
+
+	setup_media_types() {
+		let {containerEl} = this;
+		const plugin = (this as any).plugin
+		let media_settings = containerEl.createEl('h3', {text: 'Media Types'})
+		media_settings.createEl('p', {text: "How embedded files are shown in Anki, by extension. Embeds with other extensions are left as they are."})
+		for (let ext of Object.keys(plugin.settings["Media Types"]).sort()) {
+			new Setting(media_settings)
+				.setName(ext)
+				.addDropdown(
+					dropdown => dropdown.addOption("image", "Image").addOption("sound", "Audio or video").addOption("link", "Link")
+					.setValue(plugin.settings["Media Types"][ext])
+					.onChange((value) => {
+						plugin.settings["Media Types"][ext] = value
+						plugin.saveAllData()
+					})
+				)
+				.addExtraButton(
+					button => button.setIcon("cross").setTooltip("Remove")
+					.onClick(async () => {
+						delete plugin.settings["Media Types"][ext]
+						await plugin.saveAllData()
+						this.setup_display()
+					})
+				)
+		}
+		let new_ext: string = ""
+		new Setting(media_settings)
+			.setName("Add Media Type")
+			.setDesc("Extension of embedded files to upload to Anki, e.g. .heic")
+			.addText(
+				text => text.onChange((value) => {
+					new_ext = value.trim().toLowerCase()
+				})
+			)
+			.addButton(
+				button => {
+					button.setButtonText("Add").setClass("mod-cta")
+					.onClick(async () => {
+						if (!(new_ext)) {
+							return
+						}
+						const ext: string = new_ext.startsWith(".") ? new_ext : "." + new_ext
+						if (!(plugin.settings["Media Types"].hasOwnProperty(ext))) {
+							plugin.settings["Media Types"][ext] = "link"
+						}
+						await plugin.saveAllData()
+						this.setup_display()
+					})
+				}
+			)
+	}
+
 	get_folders(): TFolder[] {
 		const app = (this as any).plugin.app
 		let folder_list: TFolder[] = [app.vault.getRoot()]
@@ -288,6 +568,28 @@ export class SettingsTab extends PluginSettingTab {
 		folder_tag.controlEl.className += " anki-center"
 	}
 
+	setup_folder_heading(folder: TFolder, row_cells: HTMLCollection) {
+		const plugin = (this as any).plugin
+		let folder_headings = plugin.settings.FOLDER_HEADINGS
+		let folder_heading = new Setting(row_cells[3] as HTMLElement)
+			.addDropdown(
+				dropdown => {
+					dropdown.addOption("0", "Off")
+					for (let level = 1; level <= 6; level++) {
+						dropdown.addOption(level.toString(), "H" + level.toString())
+					}
+					dropdown.setValue((folder_headings[folder.path] || 0).toString())
+					.onChange((value) => {
+						plugin.settings.FOLDER_HEADINGS[folder.path] = parseInt(value)
+						plugin.saveAllData()
+					})
+				}
+			)
+		folder_heading.settingEl = row_cells[3] as HTMLElement
+		folder_heading.infoEl.remove()
+		folder_heading.controlEl.className += " anki-center"
+	}
+
 	setup_folder_table() {
 		let {containerEl} = this;
 		const plugin = (this as any).plugin
@@ -297,7 +599,7 @@ export class SettingsTab extends PluginSettingTab {
 		let folder_table = containerEl.createEl('table', {cls: "anki-settings-table"})
 		let head = folder_table.createTHead()
 		let header_row = head.insertRow()
-		for (let header of ["Folder", "Folder Deck", "Folder Tags"]) {
+		for (let header of ["Folder", "Folder Deck", "Folder Tags", "Heading Cards"]) {
 			let th = document.createElement("th")
 			th.appendChild(document.createTextNode(header))
 			header_row.appendChild(th)
@@ -309,18 +611,23 @@ export class SettingsTab extends PluginSettingTab {
 		if (!(plugin.settings.hasOwnProperty("FOLDER_TAGS"))) {
 			plugin.settings.FOLDER_TAGS = {}
 		}
+		if (!(plugin.settings.hasOwnProperty("FOLDER_HEADINGS"))) {
+			plugin.settings.FOLDER_HEADINGS = {}
+		}
 		for (let folder of folder_list) {
 			let row = main_body.insertRow()
 
 			row.insertCell()
 			row.insertCell()
 			row.insertCell()
+			row.insertCell()
 
 			let row_cells = row.children
 
 			row_cells[0].innerHTML = folder.path
 			this.setup_folder_deck(folder, row_cells)
 			this.setup_folder_tag(folder, row_cells)
+			this.setup_folder_heading(folder, row_cells)
 		}
 
 	}
@@ -363,14 +670,14 @@ export class SettingsTab extends PluginSettingTab {
 			)
 		new Setting(action_buttons)
 			.setName("Clear Media Cache")
-			.setDesc(`Clear the cached list of media filenames that have been added to Anki.
+			.setDesc(`Clear the cached list of media files that have been added to Anki.
 
-			The plugin will skip over adding a media file if it's added a file with the same name before, so clear this if e.g. you've updated the media file with the same name.`)
+			The plugin will skip over adding a media file if it's added the same file with the same contents before, so clear this if e.g. you've deleted the media from Anki.`)
 			.addButton(
 				button => {
 					button.setButtonText("Clear").setClass("mod-cta")
 					.onClick(async () => {
-						plugin.added_media = []
+						plugin.added_media = {}
 						await plugin.saveAllData()
 						new Notice("Media Cache cleared successfully!")
 					})
@@ -401,8 +708,13 @@ export class SettingsTab extends PluginSettingTab {
 		containerEl.createEl('a', {text: 'For more information check the wiki', href: "https://github.com/Pseudonium/Obsidian_to_Anki/wiki"})
 		this.setup_note_table()
 		this.setup_folder_table()
+		this.setup_folder_hierarchy()
+		this.setup_exclusions()
 		this.setup_syntax()
 		this.setup_defaults()
+		this.setup_media_types()
+		this.setup_tag_mappings()
+		this.setup_transport()
 		this.setup_buttons()
 	}
 
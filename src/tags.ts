@@ -0,0 +1,77 @@
+/*Obsidian tags, and turning them into Anki tags.
+
+Obsidian tags start with # after whitespace or the start of a line, can have letters and numbers in any script, _, - and / for nesting,
+and can't be only numbers. Nesting with / becomes Anki's :: hierarchy, so #biology/cell is tagged biology::cell.*/
+import { TagMapping } from './interfaces/tag-interface'
+
+// Characters that end a tag, as in Obsidian. Fields are formatted by the time tags are taken out,
+// so a tag can also come straight after an HTML tag, like <p>#tag at the start of a paragraph.
+const OBS_TAG_REGEXP: RegExp = /(?<=^|\s|>)#([^\s!"#$%&'()*+,.:;<=>?@^`{|}~\[\]\\]+)/gu
+// Tags aren't looked for in code
+const CODE_OR_TAG_REGEXP: RegExp = new RegExp(String.raw`<code\b[\s\S]*?<\/code>|` + OBS_TAG_REGEXP.source, "gu")
+const NUMERIC_REGEXP: RegExp = /^\d+$/
+
+export const ALL_TAGS: string = "*"
+
+export function obsidianTagToAnki(tag: string): string {
+	return tag.replace(/^#/, "").split("/").filter(part => part).join("::")
+}
+
+export function ankiTagToObsidian(tag: string): string {
+	return "#" + tag.split("::").join("/")
+}
+
+export function extractTags(text: string): [string, string[]] {
+	/*text with its Obsidian tags removed, and the tags as Anki tags.*/
+	let tags: string[] = []
+	const result: string = text.replace(CODE_OR_TAG_REGEXP, (match: string, tag: string | undefined) => {
+		if (tag === undefined || NUMERIC_REGEXP.test(tag)) {
+			return match
+		}
+		tags.push(obsidianTagToAnki(tag))
+		return ""
+	})
+	return [result, tags.filter(tag => tag)]
+}
+
+function applyMapping(tag: string, mapping: TagMapping): string | null {
+	/*tag after mapping, or null if mapping doesn't apply to it.*/
+	const mapped: string = obsidianTagToAnki(mapping.tag)
+	const value: string = obsidianTagToAnki(mapping.value)
+	let nested: string
+	if (mapping.tag === ALL_TAGS) {
+		nested = tag
+	} else if (tag.toLowerCase() === mapped.toLowerCase()) {
+		nested = ""
+	} else if (tag.toLowerCase().startsWith(mapped.toLowerCase() + "::")) {
+		nested = tag.slice(mapped.length + 2)
+	} else {
+		return null
+	}
+	if (mapping.action === "drop") {
+		return ""
+	} else if (mapping.action === "prefix") {
+		return [value, tag].filter(part => part).join("::")
+	}
+	// Renaming keeps the tags nested inside
+	return [value, nested].filter(part => part).join("::")
+}
+
+export function mapTags(tags: string[], mappings: TagMapping[]): string[] {
+	/*The tags to add in Anki, after the first mapping that applies to each tag, without duplicates or empty tags.*/
+	let result: string[] = []
+	for (let tag of tags) {
+		let mapped: string = tag
+		for (let mapping of mappings) {
+			const applied: string | null = applyMapping(tag, mapping)
+			if (applied !== null) {
+				mapped = applied
+				break
+			}
+		}
+		if (mapped && !(result.includes(mapped))) {
+			result.push(mapped)
+		}
+	}
+	return result
+}
@@ -0,0 +1,140 @@
+/*Resolving embedded notes, headings and blocks, so their text can be inlined into card fields.*/
+import { App, TFile, CachedMetadata, parseLinktext, resolveSubpath } from 'obsidian'
+import { Transclusion, TranscludedLink } from './interfaces/transclusion-interface'
+
+// How deep embeds inside embedded notes are followed
+const MAX_TRANSCLUSION_DEPTH: number = 5
+
+const FRONTMATTER_REGEXP: RegExp = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/
+const BLOCK_ID_REGEXP: RegExp = /\s*\^[\w-]+\s*$/
+
+export class Transcluder {
+	app: App
+
+	constructor(app: App) {
+		this.app = app
+	}
+
+	isNote(file: TFile): boolean {
+		return file.extension === "md"
+	}
+
+	embeddedNotes(file: TFile): TFile[] {
+		/*The notes embedded in file, and those embedded in them, as deep as embeds are followed.*/
+		let result: TFile[] = []
+		let sources: TFile[] = [file]
+		for (let depth = 1; depth <= MAX_TRANSCLUSION_DEPTH && sources.length; depth++) {
+			let next: TFile[] = []
+			for (let source of sources) {
+				const cache: CachedMetadata = this.app.metadataCache.getFileCache(source)
+				for (let embed of (cache && cache.embeds ? cache.embeds : [])) {
+					const target = this.app.metadataCache.getFirstLinkpathDest(parseLinktext(embed.link).path, source.path)
+					if (target && this.isNote(target) && target !== file && !(result.includes(target))) {
+						result.push(target)
+						next.push(target)
+					}
+				}
+			}
+			sources = next
+		}
+		return result
+	}
+
+	async getTransclusions(file: TFile, cache: CachedMetadata): Promise<Record<string, Transclusion>> {
+		/*The transcluded text of each embedded note in file, by the original embed text.*/
+		let result: Record<string, Transclusion> = {}
+		if (!(cache) || !(cache.embeds)) {
+			return result
+		}
+		for (let embed of cache.embeds) {
+			if (result.hasOwnProperty(embed.original)) {
+				continue
+			}
+			const transclusion = await this.transclude(embed.link, file.path, [file.path], 1)
+			if (transclusion) {
+				result[embed.original] = transclusion
+			}
+		}
+		return result
+	}
+
+	async transclude(link: string, source_path: string, stack: string[], depth: number): Promise<Transclusion | null> {
+		/*Resolve link to the text it embeds, with any nested embeds inlined.
+
+		Returns null if link isn't to a note, or if it can't be inlined.*/
+		const {path, subpath} = parseLinktext(link)
+		const target = this.app.metadataCache.getFirstLinkpathDest(path, source_path)
+		if (!(target) || !(this.isNote(target))) {
+			return null
+		}
+		const key: string = target.path + subpath
+		if (stack.includes(key)) {
+			console.warn("Not transcluding ", link, " in ", source_path, " as it embeds itself.")
+			return null
+		}
+		if (depth > MAX_TRANSCLUSION_DEPTH) {
+			console.warn("Not transcluding ", link, " in ", source_path, " as embeds are nested too deeply.")
+			return null
+		}
+		const content: string = await this.app.vault.cachedRead(target)
+		const cache: CachedMetadata = this.app.metadataCache.getFileCache(target)
+		let [start, end]: [number, number] = [0, content.length]
+		if (subpath) {
+			const resolved = cache ? resolveSubpath(cache, subpath) : null
+			if (!(resolved)) {
+				console.warn("Couldn't find ", subpath, " in ", target.path)
+				return null
+			}
+			start = resolved.start.offset
+			end = resolved.end ? resolved.end.offset : content.length
+		}
+		let result: Transclusion = {text: "", embeds: [], links: []}
+		// Nested embeds and links are rewritten from the end, so earlier offsets stay valid
+		let replacements: Array<[number, number, string]> = []
+		const within = (item: {position: {start: {offset: number}, end: {offset: number}}}): boolean => (
+			item.position.start.offset >= start && item.position.end.offset <= end
+		)
+		for (let embed of (cache && cache.embeds ? cache.embeds : []).filter(within)) {
+			const nested = await this.transclude(embed.link, target.path, stack.concat([key]), depth + 1)
+			if (nested) {
+				replacements.push([embed.position.start.offset, embed.position.end.offset, nested.text])
+				result.embeds.push(...nested.embeds)
+				result.links.push(...nested.links)
+				continue
+			}
+			const media = this.app.metadataCache.getFirstLinkpathDest(embed.link, target.path)
+			if (media && !(this.isNote(media))) {
+				const rewritten: TranscludedLink = {original: "![[" + media.path + "]]", link: media.path, displayText: embed.displayText}
+				replacements.push([embed.position.start.offset, embed.position.end.offset, rewritten.original])
+				result.embeds.push(rewritten)
+			}
+		}
+		for (let link_cache of (cache && cache.links ? cache.links : []).filter(within)) {
+			const {path: link_path, subpath: link_subpath} = parseLinktext(link_cache.link)
+			const linked = this.app.metadataCache.getFirstLinkpathDest(link_path, target.path)
+			if (!(linked)) {
+				continue
+			}
+			const rewritten: TranscludedLink = {
+				original: "[[" + linked.path + link_subpath + "|" + link_cache.displayText + "]]",
+				link: linked.path + link_subpath,
+				displayText: link_cache.displayText
+			}
+			replacements.push([link_cache.position.start.offset, link_cache.position.end.offset, rewritten.original])
+			result.links.push(rewritten)
+		}
+		let text: string = content
+		for (let [replace_start, replace_end, replacement] of replacements.sort((a, b) => b[0] - a[0])) {
+			text = text.slice(0, replace_start) + replacement + text.slice(replace_end)
+			end += replacement.length - (replace_end - replace_start)
+		}
+		text = text.slice(start, end)
+		if (!(subpath)) {
+			text = text.replace(FRONTMATTER_REGEXP, "")
+		} else if (subpath.startsWith("#^")) {
+			text = text.replace(BLOCK_ID_REGEXP, "")
+		}
+		result.text = text.trim()
+		return result
+	}
+}